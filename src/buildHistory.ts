@@ -0,0 +1,204 @@
+import * as vscode from 'vscode';
+import { BuildLog } from './buildLog';
+import { MiracleProjectManager } from './projects';
+import { formatCommandLine, getShellKind, quoteShellArgument } from './processRunner';
+import { MiracleTaskDefinition, MiracleTaskEndEvent, MiracleTaskProvider, getTaskName } from './taskProvider';
+import { formatDuration } from './format';
+
+/**
+ * A finished build or run, as recorded in the Build History.
+ */
+export interface BuildHistoryEntry {
+  definition: MiracleTaskDefinition;
+  /** The root folder of the project the task ran in. */
+  projectRoot: string;
+  command: string;
+  args: string[];
+  cwd: string;
+  exitCode: number;
+  /** Whether the task was stopped rather than exiting by itself. */
+  cancelled?: boolean;
+  errors: number;
+  warnings: number;
+  /** Milliseconds the process ran for. */
+  duration: number;
+  /** When the task started, in milliseconds since the epoch. */
+  timestamp: number;
+  /** The id of the invocation's log, only kept for the current session. */
+  logId?: string;
+}
+
+const HISTORY_KEY = 'miracle.buildHistory';
+const MAX_ENTRIES = 50;
+
+/**
+ * A node of the Build History view.
+ */
+export class BuildHistoryItem extends vscode.TreeItem {
+  constructor(
+    readonly entry: BuildHistoryEntry,
+    projectName: string | undefined
+  ) {
+    super(getTaskName(entry.definition), vscode.TreeItemCollapsibleState.None);
+
+    const succeeded = entry.exitCode === 0;
+    const time = new Date(entry.timestamp).toLocaleString();
+    this.description = [projectName, formatDuration(entry.duration), time].filter(Boolean).join(' · ');
+    if (entry.cancelled) {
+      this.iconPath = new vscode.ThemeIcon('debug-stop');
+    } else {
+      this.iconPath = succeeded
+        ? new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'))
+        : new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+    }
+
+    const { command, target, platform, linkType, buildType } = entry.definition;
+    const result = entry.cancelled
+      ? 'was stopped'
+      : succeeded
+        ? 'succeeded'
+        : `failed with exit code ${entry.exitCode}`;
+    const details = [
+      `- Command: \`${command}\``,
+      target ? `- Target: ${target}` : '',
+      platform ? `- Platform: ${platform}` : '',
+      linkType ? `- Link type: ${linkType}` : '',
+      buildType ? `- Build type: ${buildType}` : '',
+      `- Duration: ${formatDuration(entry.duration)}`,
+      `- Errors: ${entry.errors}, warnings: ${entry.warnings}`,
+      `- Started: ${time}`,
+      projectName ? `- Project: ${projectName}` : '',
+    ].filter((line) => line !== '');
+    this.tooltip = new vscode.MarkdownString(`**${this.label}** ${result}\n\n${details.join('\n')}`);
+    this.contextValue = 'buildHistoryEntry';
+  }
+}
+
+/**
+ * BuildHistory records the builds and runs of the workspace in the workspace state and shows
+ * them, most recent first, in the Build History view. Entries can be rerun, their log
+ * reopened and their command line copied to run the script by hand.
+ */
+export class BuildHistory implements vscode.TreeDataProvider<BuildHistoryItem>, vscode.Disposable {
+  private _onDidChangeTreeData = new vscode.EventEmitter<BuildHistoryItem | undefined | void>();
+  readonly onDidChangeTreeData: vscode.Event<BuildHistoryItem | undefined | void> = this._onDidChangeTreeData.event;
+
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private projectManager: MiracleProjectManager,
+    private taskProvider: MiracleTaskProvider,
+    private log: BuildLog
+  ) {
+    this.disposables.push(
+      taskProvider.onDidEndTask((event) => this.record(event)),
+      projectManager.onDidChangeProjects(() => this._onDidChangeTreeData.fire())
+    );
+  }
+
+  /**
+   * The recorded builds and runs, most recent first.
+   */
+  get entries(): BuildHistoryEntry[] {
+    return this.context.workspaceState.get<BuildHistoryEntry[]>(HISTORY_KEY, []);
+  }
+
+  getTreeItem(element: BuildHistoryItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: BuildHistoryItem): BuildHistoryItem[] {
+    if (element) {
+      return [];
+    }
+    const showProject = this.projectManager.projects.length > 1;
+    return this.entries.map(
+      (entry) =>
+        new BuildHistoryItem(entry, showProject ? this.projectManager.getProject(entry.projectRoot)?.name : undefined)
+    );
+  }
+
+  /**
+   * Runs the task of an entry again in the project it ran in.
+   */
+  rerun(item: BuildHistoryItem) {
+    const project = this.projectManager.getProject(item.entry.projectRoot);
+    if (!project) {
+      vscode.window.showErrorMessage(`The project at ${item.entry.projectRoot} is no longer in the workspace.`);
+      return;
+    }
+    this.taskProvider.runTask(item.entry.definition, project);
+  }
+
+  /**
+   * Opens the log of an entry, or the output channel once the log is no longer kept.
+   */
+  async openLog(item: BuildHistoryItem) {
+    if (item.entry.logId && (await this.log.showLog(item.entry.logId))) {
+      return;
+    }
+    const choice = await vscode.window.showInformationMessage(
+      'The log of this build is no longer available.',
+      'Show Output'
+    );
+    if (choice === 'Show Output') {
+      this.log.show();
+    }
+  }
+
+  /**
+   * Copies a command line that runs the script of an entry from any folder, for the shell of
+   * the integrated terminal.
+   */
+  async copyCommandLine(item: BuildHistoryItem) {
+    const { command, args, cwd } = item.entry;
+    const kind = getShellKind();
+    const changeDirectory =
+      kind === 'cmd' ? `cd /d ${quoteShellArgument(cwd, kind)}` : `cd ${quoteShellArgument(cwd, kind)}`;
+    const separator = kind === 'powershell' ? '; ' : ' && ';
+
+    await vscode.env.clipboard.writeText(changeDirectory + separator + formatCommandLine(command, args, kind));
+    vscode.window.setStatusBarMessage(`Copied the command line of '${item.label}'.`, 3000);
+  }
+
+  /**
+   * Removes every entry.
+   */
+  async clear() {
+    await this.context.workspaceState.update(HISTORY_KEY, undefined);
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Adds a finished build or run to the history. Clean tasks are not recorded.
+   */
+  private async record(event: MiracleTaskEndEvent) {
+    if (event.definition.command === 'clean') {
+      return;
+    }
+
+    const { exitCode, cancelled, errors, warnings, duration, logId } = event.result;
+    const entry: BuildHistoryEntry = {
+      definition: event.definition,
+      projectRoot: event.projectRoot,
+      command: event.command,
+      args: event.args,
+      cwd: event.cwd,
+      exitCode,
+      cancelled,
+      errors,
+      warnings,
+      duration,
+      timestamp: Date.now() - duration,
+      logId,
+    };
+    await this.context.workspaceState.update(HISTORY_KEY, [entry, ...this.entries].slice(0, MAX_ENTRIES));
+    this._onDidChangeTreeData.fire();
+  }
+
+  dispose() {
+    this.disposables.forEach((d) => d.dispose());
+    this._onDidChangeTreeData.dispose();
+  }
+}
@@ -0,0 +1,305 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { formatCommandLine } from './processRunner';
+import { formatDuration, pluralize } from './format';
+
+/**
+ * A target of `build --target all`, either the application or a library.
+ */
+export interface BuildTarget {
+  name: string;
+  /** Absolute path of the target's source folder. */
+  dir: string;
+}
+
+/**
+ * A compiler diagnostic found in the output of a script.
+ */
+export interface BuildDiagnostic {
+  file: string;
+  severity: 'error' | 'warning';
+}
+
+/**
+ * The outcome of one target of a build, as reconstructed from the build output.
+ */
+export interface TargetSummary {
+  name: string;
+  status: 'compiled' | 'failed' | 'no output';
+  errors: number;
+  warnings: number;
+  /** Milliseconds between the first and the last output of the target. */
+  duration?: number;
+}
+
+const LAST_BUILD_LOG_URI = vscode.Uri.parse('miracle-log:Last%20Build.log');
+
+/**
+ * The number of invocations whose log is kept in memory to be reopened from the Build History.
+ */
+const KEPT_LOGS = 20;
+
+/**
+ * BuildLog records every script invocation in the "Miracle Framework" output channel: the
+ * command line, working directory, output, exit code and duration. Builds of every target
+ * end with a summary per target. The log of the last build can be opened as a document.
+ */
+export class BuildLog implements vscode.TextDocumentContentProvider, vscode.Disposable {
+  readonly channel: vscode.LogOutputChannel;
+  private lastBuild: BuildLogEntry | undefined;
+  private entries: BuildLogEntry[] = [];
+  private nextId = Date.now();
+  private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChange: vscode.Event<vscode.Uri> = this._onDidChange.event;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    this.channel = vscode.window.createOutputChannel('Miracle Framework', { log: true });
+    this.disposables.push(
+      this.channel,
+      this._onDidChange,
+      vscode.workspace.registerTextDocumentContentProvider(LAST_BUILD_LOG_URI.scheme, this)
+    );
+  }
+
+  /**
+   * Records the start of a script invocation.
+   * @param command The executable.
+   * @param args The arguments passed to the executable.
+   * @param cwd The working directory of the process.
+   * @param targets The targets to summarize once the process exits, if it builds several.
+   */
+  start(command: string, args: string[], cwd: string, targets?: BuildTarget[]): BuildLogEntry {
+    const id = (this.nextId++).toString(36);
+    const entry = new BuildLogEntry(id, this.channel, formatCommandLine(command, args), cwd, targets, () => {
+      this._onDidChange.fire(LAST_BUILD_LOG_URI);
+      this._onDidChange.fire(getLogUri(id));
+    });
+    if (targets || args.some((arg) => arg === 'build' || arg === 'build-exe')) {
+      this.lastBuild = entry;
+    }
+    this.entries = [entry, ...this.entries].slice(0, KEPT_LOGS);
+    return entry;
+  }
+
+  /**
+   * Reveals the output channel.
+   */
+  show() {
+    this.channel.show(true);
+  }
+
+  /**
+   * Opens the log of the last build in an editor.
+   */
+  async showLastBuildLog() {
+    if (!this.lastBuild) {
+      vscode.window.showInformationMessage('No build has run yet.');
+      return;
+    }
+    const document = await vscode.workspace.openTextDocument(LAST_BUILD_LOG_URI);
+    await vscode.window.showTextDocument(document, { preview: true });
+  }
+
+  /**
+   * Opens the log of a recent invocation in an editor.
+   * @param id The id of its BuildLogEntry.
+   * @returns Whether the log was still kept.
+   */
+  async showLog(id: string): Promise<boolean> {
+    if (!this.entries.some((entry) => entry.id === id)) {
+      return false;
+    }
+    const document = await vscode.workspace.openTextDocument(getLogUri(id));
+    await vscode.window.showTextDocument(document, { preview: true });
+    return true;
+  }
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    if (uri.toString() === LAST_BUILD_LOG_URI.toString()) {
+      return this.lastBuild?.text ?? '';
+    }
+    const id = uri.path.replace(/\.log$/, '');
+    return this.entries.find((entry) => entry.id === id)?.text ?? '';
+  }
+
+  dispose() {
+    this.disposables.forEach((d) => d.dispose());
+  }
+}
+
+/**
+ * BuildLogEntry is the record of a single script invocation. It keeps the full output so the
+ * last build can be reopened, and follows which target each line of output belongs to.
+ */
+export class BuildLogEntry {
+  private lines: string[] = [];
+  private startTime = Date.now();
+  private targetStats = new Map<string, { first: number; last: number; errors: number; warnings: number }>();
+  private currentTarget: string | undefined;
+
+  /**
+   * Creates a new BuildLogEntry.
+   * @param id Identifies the entry among the logs kept by the BuildLog.
+   */
+  constructor(
+    readonly id: string,
+    private channel: vscode.LogOutputChannel,
+    private commandLine: string,
+    private cwd: string,
+    private targets: BuildTarget[] | undefined,
+    private onFinish: () => void
+  ) {
+    this.header(`Running ${commandLine}`);
+    this.header(`Working directory: ${cwd}`);
+  }
+
+  /**
+   * The full log of the invocation.
+   */
+  get text(): string {
+    return this.lines.join('\n');
+  }
+
+  /**
+   * Records a complete line of process output.
+   * @param diagnostic The compiler diagnostic on the line, if any.
+   */
+  line(text: string, diagnostic?: BuildDiagnostic) {
+    this.channel.appendLine(text);
+    this.lines.push(text);
+    if (!this.targets) {
+      return;
+    }
+
+    // Output is attributed to the target whose folder or name it mentions last
+    const now = Date.now();
+    const target = diagnostic ? this.findTargetOfFile(diagnostic.file) : this.findTargetInLine(text);
+    if (target) {
+      this.currentTarget = target;
+    }
+    if (this.currentTarget) {
+      const stats = this.targetStats.get(this.currentTarget) ?? { first: now, last: now, errors: 0, warnings: 0 };
+      stats.last = now;
+      if (diagnostic?.severity === 'error') {
+        stats.errors++;
+      } else if (diagnostic?.severity === 'warning') {
+        stats.warnings++;
+      }
+      this.targetStats.set(this.currentTarget, stats);
+    }
+  }
+
+  /**
+   * Records the exit of the process and, for builds of several targets, the summary per target.
+   * @param cancelled Whether the process was stopped rather than exiting by itself.
+   */
+  finish(exitCode: number, errors: number, warnings: number, cancelled = false) {
+    const duration = formatDuration(Date.now() - this.startTime);
+    const counts = `${pluralize(errors, 'error')}, ${pluralize(warnings, 'warning')}`;
+    const message = cancelled
+      ? `Stopped after ${duration} (${counts}): ${this.commandLine}`
+      : `Exited with code ${exitCode} after ${duration} (${counts}): ${this.commandLine}`;
+    if (cancelled) {
+      this.lines.push(`[warning] ${message}`);
+      this.channel.warn(message);
+    } else if (exitCode === 0) {
+      this.header(message);
+    } else {
+      this.lines.push(`[error] ${message}`);
+      this.channel.error(message);
+    }
+
+    if (this.targets) {
+      const summary = this.getSummary(exitCode);
+      const width = Math.max(...summary.map((target) => target.name.length));
+      this.header('Target summary:');
+      for (const target of summary) {
+        this.header(`  ${formatTargetSummary(target, width)}`);
+      }
+    }
+    this.onFinish();
+  }
+
+  /**
+   * Returns the outcome of every target. Targets without output are reported as such, which
+   * usually means they were up to date or the build stopped before reaching them.
+   */
+  getSummary(exitCode: number): TargetSummary[] {
+    return (this.targets ?? []).map(({ name }) => {
+      const stats = this.targetStats.get(name);
+      if (!stats) {
+        return { name, status: 'no output', errors: 0, warnings: 0 };
+      }
+      const failed = stats.errors > 0 || (exitCode !== 0 && name === this.currentTarget);
+      return {
+        name,
+        status: failed ? 'failed' : 'compiled',
+        errors: stats.errors,
+        warnings: stats.warnings,
+        duration: stats.last - stats.first,
+      };
+    });
+  }
+
+  private header(text: string) {
+    this.lines.push(`[info] ${text}`);
+    this.channel.info(text);
+  }
+
+  private findTargetOfFile(file: string): string | undefined {
+    const filePath = path.resolve(this.cwd, file);
+    let match: BuildTarget | undefined;
+    for (const target of this.targets ?? []) {
+      const relative = path.relative(target.dir, filePath);
+      const isInside = !relative.startsWith('..') && !path.isAbsolute(relative);
+      if (isInside && (!match || target.dir.length > match.dir.length)) {
+        match = target;
+      }
+    }
+    return match?.name;
+  }
+
+  private findTargetInLine(text: string): string | undefined {
+    for (const target of this.targets ?? []) {
+      const relativeDir = path.relative(this.cwd, target.dir);
+      if (text.includes(target.dir) || (relativeDir !== '' && text.includes(relativeDir))) {
+        return target.name;
+      }
+    }
+    for (const target of this.targets ?? []) {
+      if (new RegExp(`\\b(build|compil|link)\\w*\\b.*\\b${escapeRegExp(target.name)}\\b`, 'i').test(text)) {
+        return target.name;
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Formats one line of the target summary, e.g. "✗ physics   0.8s  3 errors, 1 warning".
+ */
+function formatTargetSummary(target: TargetSummary, width: number): string {
+  const icon = target.status === 'compiled' ? '✓' : target.status === 'failed' ? '✗' : '-';
+  const name = target.name.padEnd(width);
+  if (target.status === 'no output') {
+    return `${icon} ${name}  no output`;
+  }
+  const counts = [
+    target.errors > 0 ? pluralize(target.errors, 'error') : '',
+    target.warnings > 0 ? pluralize(target.warnings, 'warning') : '',
+  ].filter((count) => count !== '');
+  const duration = formatDuration(target.duration ?? 0).padStart(6);
+  return `${icon} ${name}  ${duration}${counts.length > 0 ? `  ${counts.join(', ')}` : ''}`;
+}
+
+/**
+ * Returns the URI of the document showing the log of an invocation.
+ */
+function getLogUri(id: string): vscode.Uri {
+  return vscode.Uri.from({ scheme: LAST_BUILD_LOG_URI.scheme, path: `${id}.log` });
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -1,217 +1,134 @@
 import * as vscode from 'vscode';
-import * as path from 'path';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-
-const execAsync = promisify(exec);
+import { BuildProfile, BuildProfileStore } from './buildProfiles';
+import { MIRACLE_PLATFORMS, getHostPlatform, getPlatformStatus } from './platform';
 
 export class BuildPanelProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = 'buildPanel';
-  private readonly stateKey = 'buildPanel.state';
+  public static readonly stateKey = 'buildPanel.state';
+
+  private view: vscode.WebviewView | undefined;
+  private _onDidChangeState = new vscode.EventEmitter<void>();
+  /** Fired once the selection of the panel has been stored, see getState. */
+  readonly onDidChangeState: vscode.Event<void> = this._onDidChangeState.event;
 
-  constructor(private readonly context: vscode.ExtensionContext) {}
+  constructor(
+    private readonly context: vscode.ExtensionContext,
+    private readonly profiles: BuildProfileStore
+  ) {
+    // Show the selected profile in the panel, whether it was picked here or from the status bar
+    context.subscriptions.push(
+      this._onDidChangeState,
+      profiles.onDidChange(async () => {
+        const profile = profiles.activeProfile;
+        if (profile) {
+          await context.workspaceState.update(BuildPanelProvider.stateKey, getProfileState(profile));
+          this._onDidChangeState.fire();
+        }
+        this.postState();
+      })
+    );
+  }
+
+  /**
+   * Returns the selection of the Build Panel in this workspace.
+   */
+  static getState(context: vscode.ExtensionContext): BuildPanelState {
+    return (
+      context.workspaceState.get<BuildPanelState>(BuildPanelProvider.stateKey) ??
+      getProfileState({ name: 'custom', platform: getHostPlatform() ?? 'linux', linkType: 'dynamic', buildType: 'debug' })
+    );
+  }
 
   resolveWebviewView(
     webviewView: vscode.WebviewView,
     _context: vscode.WebviewViewResolveContext,
     _token: vscode.CancellationToken
   ) {
+    this.view = webviewView;
+    webviewView.onDidDispose(() => (this.view = undefined));
     webviewView.webview.options = {
       enableScripts: true,
     };
 
-    // Initialize state if not present
-    if (!this.context.globalState.get(this.stateKey)) {
-      const initialState = {
-        build: {
-          platform: 'linux',
-          linkType: 'dynamic',
-          buildType: 'debug',
-        },
-        hotcompile: {
-          platform: 'linux',
-        },
-        run: {
-          platform: 'linux',
-          buildType: 'debug',
-        },
-      };
-      this.context.globalState.update(this.stateKey, initialState);
-    }
-
     webviewView.webview.html = this.getHtmlForWebview(webviewView.webview);
 
-    // Handle messages from the webview
+    // Handle messages from the webview. While a profile is selected the actions run with it,
+    // including its extra arguments.
     webviewView.webview.onDidReceiveMessage(async (message) => {
+      const profile = this.profiles.activeProfile;
       switch (message.command) {
         case 'buildExecutable':
           vscode.commands.executeCommand(
             'miracle.buildExecutable',
-            message.linkType,
-            message.platform,
-            message.buildType
+            ...(profile ? [{ profile: profile.name }] : [message.linkType, message.platform, message.buildType])
           );
           break;
         case 'fullHotCompile':
           vscode.commands.executeCommand(
             'miracle.fullHotCompile',
-            message.platform
+            ...(profile ? [{ profile: profile.name }] : [message.platform])
+          );
+          break;
+        case 'buildChanged':
+          vscode.commands.executeCommand(
+            'miracle.buildChanged',
+            ...(profile ? [{ profile: profile.name }] : [message.platform])
           );
           break;
         case 'runExecutable':
           vscode.commands.executeCommand(
             'miracle.runExecutable',
+            ...(profile ? [{ profile: profile.name }] : [message.buildType, message.platform])
+          );
+          break;
+        case 'debugExecutable':
+          vscode.commands.executeCommand(
+            'miracle.debugExecutable',
             message.buildType,
-            message.platform
+            message.platform,
+            message.linkType
           );
           break;
+        case 'stop':
+          vscode.commands.executeCommand('miracle.stop');
+          break;
         case 'cleanBuildDirectories':
           vscode.commands.executeCommand('miracle.cleanBuildDirectories');
           break;
         case 'setupWorkspace':
-          await this.handleSetupWorkspace();
+          vscode.commands.executeCommand('miracle.setupProject');
+          break;
+        case 'selectProfile':
+          await this.profiles.setActiveProfile(message.name || undefined);
+          break;
+        case 'saveProfile':
+          await this.profiles.saveProfile(BuildPanelProvider.getState(this.context).build);
           break;
+        case 'ready':
         case 'requestState':
-          const state = this.context.globalState.get(this.stateKey);
-          webviewView.webview.postMessage({ command: 'updateState', state });
+          this.postState();
           break;
         case 'updateState':
-          this.context.globalState.update(this.stateKey, message.state);
+          // Changing a selection by hand leaves the selected profile
+          await this.context.workspaceState.update(BuildPanelProvider.stateKey, message.state);
+          await this.profiles.setActiveProfile(undefined);
+          this._onDidChangeState.fire();
           break;
       }
     });
-
-    // Request the current state when the webview is loaded
-    webviewView.webview.onDidReceiveMessage((message) => {
-      if (message.command === 'ready') {
-        const state = this.context.globalState.get(this.stateKey);
-        webviewView.webview.postMessage({ command: 'updateState', state });
-      }
-    });
   }
 
-  private async handleSetupWorkspace() {
-    try {
-      // Ensure Git is installed
-      await this.ensureGitInstalled();
-
-      // Get the active workspace folder
-      const workspaceFolders = vscode.workspace.workspaceFolders;
-      if (!workspaceFolders || workspaceFolders.length === 0) {
-        vscode.window.showErrorMessage('No workspace folder is open.');
-        return;
-      }
-
-      const workspaceFolder = workspaceFolders[0].uri.fsPath;
-
-      // Define the path to the miracle directory
-      const miraclePath = path.join(workspaceFolder, 'miracle');
-
-      // Check if miracle directory exists
-      const miracleExists = await this.checkIfDirectoryExists(miraclePath);
-
-      if (!miracleExists) {
-        // Add miracle as a git submodule
-        const addSubmoduleCommand = `git submodule add https://github.com/freshbreathmint/miracle miracle`;
-        vscode.window.showInformationMessage('Adding miracle as a git submodule...');
-        await execAsync(addSubmoduleCommand, { cwd: workspaceFolder });
-        vscode.window.showInformationMessage('Miracle submodule added successfully.');
-      } else {
-        vscode.window.showInformationMessage('Miracle directory already exists.');
-      }
-
-      // Prompt the user for the project name
-      const projectName = await vscode.window.showInputBox({
-        prompt: 'Enter the name of your project',
-        placeHolder: 'Project Name',
-        validateInput: (value) => {
-          return value.trim() === '' ? 'Project name cannot be empty.' : null;
-        },
-      });
-
-      if (!projectName) {
-        // User cancelled the input
-        return;
-      }
-
-      // Determine the available Python command
-      const pythonCmd = await this.getPythonCommand();
-
-      // Execute the setup.py script located in scripts/
-      const setupCommand = `${pythonCmd} scripts/setup.py application ${projectName}`;
-      vscode.window.showInformationMessage('Running setup.py script...');
-      const miraclePathResolved = path.resolve(workspaceFolder, 'miracle');
-
-      // Check if miracle directory exists after adding submodule
-      const miracleUri = vscode.Uri.file(miraclePathResolved);
-      let miracleStat: vscode.FileStat | null = null;
-      try {
-        miracleStat = await vscode.workspace.fs.stat(miracleUri);
-      } catch (error) {
-        miracleStat = null;
-      }
-
-      if (!miracleStat || miracleStat.type !== vscode.FileType.Directory) {
-        vscode.window.showErrorMessage(`Miracle directory does not exist at ${miraclePathResolved}.`);
-        return;
-      }
-
-      // Execute the setup.py script from scripts/
-      const { stdout, stderr } = await execAsync(setupCommand, { cwd: miraclePathResolved });
-
-      if (stderr && stderr.trim() !== '') {
-        vscode.window.showErrorMessage(`Error executing setup.py: ${stderr}`);
-        return;
-      }
-
-      vscode.window.showInformationMessage(`Workspace setup completed: ${stdout}`);
-
-      // Load the workspace file using the correct command
-      const workspacePath = path.join(workspaceFolder, '..', 'miracle.code-workspace');
-      const workspaceUri = vscode.Uri.file(workspacePath);
-
-      vscode.commands.executeCommand('workbench.action.openWorkspace', workspaceUri).then(
-        () => {
-          vscode.window.showInformationMessage('Workspace loaded successfully.');
-        },
-        (err) => {
-          vscode.window.showErrorMessage(`Failed to load workspace: ${err}`);
-        }
-      );
-    } catch (error: any) {
-      vscode.window.showErrorMessage(`Setup Workspace failed: ${error.message}`);
-    }
-  }
-
-  private async ensureGitInstalled() {
-    try {
-      await execAsync('git --version');
-    } catch (error) {
-      throw new Error('Git is not installed or not available in PATH.');
-    }
-  }
-
-  private async checkIfDirectoryExists(dirPath: string): Promise<boolean> {
-    try {
-      const stat = await vscode.workspace.fs.stat(vscode.Uri.file(dirPath));
-      return stat.type === vscode.FileType.Directory;
-    } catch (error) {
-      return false;
-    }
-  }
-
-  private async getPythonCommand(): Promise<string> {
-    try {
-      await execAsync('python --version');
-      return 'python';
-    } catch {
-      try {
-        await execAsync('python3 --version');
-        return 'python3';
-      } catch {
-        throw new Error('Python is not installed or not available in PATH. Please install Python to proceed.');
-      }
-    }
+  /**
+   * Sends the selection and the available profiles to the webview.
+   */
+  private postState() {
+    this.view?.webview.postMessage({
+      command: 'updateState',
+      state: BuildPanelProvider.getState(this.context),
+      profiles: this.profiles.profiles.map((profile) => profile.name),
+      activeProfile: this.profiles.activeProfile?.name ?? '',
+      platforms: MIRACLE_PLATFORMS.map(getPlatformStatus),
+    });
   }
 
   private getHtmlForWebview(webview: vscode.Webview): string {
@@ -244,6 +161,12 @@ export class BuildPanelProvider implements vscode.WebviewViewProvider {
         </style>
       </head>
       <body>
+        <div class="section">
+          <h2>Build Profile</h2>
+          <select id="profile"></select>
+          <button onclick="saveProfile()">Save as Profile</button>
+        </div>
+
         <div class="section">
           <h2>Build Actions</h2>
           <label for="build-platform">Platform:</label>
@@ -272,6 +195,7 @@ export class BuildPanelProvider implements vscode.WebviewViewProvider {
             <option value="linux">Linux</option>
           </select>
           <button onclick="fullHotCompile()">Full Hot Compile</button>
+          <button onclick="buildChanged()" title="Hot compile the libraries changed since their last build and the ones depending on them">Build Changed</button>
         </div>
 
         <div class="section">
@@ -287,10 +211,12 @@ export class BuildPanelProvider implements vscode.WebviewViewProvider {
             <option value="release">Release</option>
           </select>
           <button onclick="runExecutable()">Run Executable</button>
+          <button onclick="debugExecutable()">Debug Executable</button>
         </div>
 
         <div class="section">
           <h2>Framework Actions</h2>
+          <button onclick="stop()">Stop</button>
           <button onclick="cleanBuildDirectories()">Clean</button>
           <button onclick="setupWorkspace()">Setup Workspace</button>
         </div>
@@ -304,6 +230,8 @@ export class BuildPanelProvider implements vscode.WebviewViewProvider {
             switch (message.command) {
               case 'updateState':
                 setState(message.state);
+                setProfiles(message.profiles, message.activeProfile);
+                setPlatforms(message.platforms);
                 break;
             }
           });
@@ -321,11 +249,40 @@ export class BuildPanelProvider implements vscode.WebviewViewProvider {
             document.getElementById('run-buildType').value = state.run.buildType;
           }
 
+          // Function to fill the profile list, 'Custom' stands for a selection made by hand
+          function setProfiles(profiles, activeProfile) {
+            const select = document.getElementById('profile');
+            select.innerHTML = '';
+            for (const name of ['', ...profiles]) {
+              const option = document.createElement('option');
+              option.value = name;
+              option.textContent = name === '' ? 'Custom' : name;
+              select.appendChild(option);
+            }
+            select.value = activeProfile;
+          }
+
+          // Function to mark the platforms that cannot be built from this machine
+          function setPlatforms(platforms) {
+            for (const status of platforms) {
+              document.querySelectorAll('select[id$="-platform"] option[value="' + status.platform + '"]').forEach((option) => {
+                const label = status.platform === 'windows' ? 'Windows' : 'Linux';
+                option.textContent = status.buildable ? label : label + ' (unavailable)';
+                option.title = status.problem || '';
+              });
+            }
+          }
+
           // Notify the extension that the webview is ready
           window.onload = () => {
             vscode.postMessage({ command: 'ready' });
           };
 
+          // Select a profile, which updates every selection below
+          document.getElementById('profile').addEventListener('change', (event) => {
+            vscode.postMessage({ command: 'selectProfile', name: event.target.value });
+          });
+
           // Add event listeners to update state when selections change
           document.getElementById('build-platform').addEventListener('change', updateState);
           document.getElementById('build-linkType').addEventListener('change', updateState);
@@ -353,6 +310,13 @@ export class BuildPanelProvider implements vscode.WebviewViewProvider {
             vscode.postMessage({ command: 'updateState', state });
           }
 
+          // Save the build selection as a named profile
+          function saveProfile() {
+            vscode.postMessage({
+              command: 'saveProfile'
+            });
+          }
+
           // Build Executable Action
           function buildExecutable() {
             const platform = document.getElementById('build-platform').value;
@@ -375,6 +339,15 @@ export class BuildPanelProvider implements vscode.WebviewViewProvider {
             });
           }
 
+          // Build Changed Action
+          function buildChanged() {
+            const platform = document.getElementById('hotcompile-platform').value;
+            vscode.postMessage({
+              command: 'buildChanged',
+              platform: platform
+            });
+          }
+
           // Run Executable Action
           function runExecutable() {
             const platform = document.getElementById('run-platform').value;
@@ -386,6 +359,26 @@ export class BuildPanelProvider implements vscode.WebviewViewProvider {
             });
           }
 
+          // Debug Executable Action, built with the link type selected under Build Actions
+          function debugExecutable() {
+            const platform = document.getElementById('run-platform').value;
+            const buildType = document.getElementById('run-buildType').value;
+            const linkType = document.getElementById('build-linkType').value;
+            vscode.postMessage({
+              command: 'debugExecutable',
+              platform: platform,
+              buildType: buildType,
+              linkType: linkType
+            });
+          }
+
+          // Stop Action
+          function stop() {
+            vscode.postMessage({
+              command: 'stop'
+            });
+          }
+
           // Clean Build Directories Action
           function cleanBuildDirectories() {
             vscode.postMessage({
@@ -404,4 +397,24 @@ export class BuildPanelProvider implements vscode.WebviewViewProvider {
       </html>
     `;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * The selections of the Build Panel, saved in the workspace state.
+ */
+export interface BuildPanelState {
+  build: { platform: string; linkType: string; buildType: string };
+  hotcompile: { platform: string };
+  run: { platform: string; buildType: string };
+}
+
+/**
+ * Returns the Build Panel selections matching a profile.
+ */
+function getProfileState(profile: BuildProfile): BuildPanelState {
+  return {
+    build: { platform: profile.platform, linkType: profile.linkType, buildType: profile.buildType },
+    hotcompile: { platform: profile.platform },
+    run: { platform: profile.platform, buildType: profile.buildType },
+  };
+}
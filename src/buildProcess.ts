@@ -0,0 +1,197 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { formatCommandLine, runProcess } from './processRunner';
+import { BuildDiagnostic, BuildLog, BuildLogEntry, BuildTarget } from './buildLog';
+
+/**
+ * Matches GCC/Clang diagnostics, e.g. "src/main.c:12:5: error: message".
+ * Kept in sync with the "miracle-gcc" problem matcher in package.json.
+ */
+const GCC_DIAGNOSTIC = /^(.*?):(\d+):(\d+):\s+(?:fatal\s+)?(warning|error):\s+(.*)$/;
+
+/**
+ * Matches MSVC diagnostics, e.g. "src\main.c(12,5): error C2065: message".
+ * Kept in sync with the "miracle-msvc" problem matcher in package.json.
+ */
+const MSVC_DIAGNOSTIC = /^\s*(?:\d+>)?(\S.*?)\((\d+|\d+,\d+|\d+,\d+,\d+,\d+)\)\s*:\s+(?:fatal\s+)?(error|warning|info)\s+(\w+\d+)\s*:\s*(.*)$/;
+
+/**
+ * The outcome of a finished build process.
+ */
+export interface BuildProcessResult {
+  exitCode: number;
+  /** The id of the invocation's entry in the BuildLog. */
+  logId?: string;
+  /** Whether the process was stopped rather than exiting by itself. */
+  cancelled: boolean;
+  duration: number;
+  errors: number;
+  warnings: number;
+}
+
+/**
+ * BuildProcessTerminal is the pseudoterminal behind every Miracle task. It spawns the script
+ * as a child process, streams its output into the task terminal line by line (where the
+ * problem matchers pick it up) and counts the compiler diagnostics it sees along the way.
+ * Diagnostics are printed with absolute paths, so the problem matchers find their files
+ * wherever the project and the framework are.
+ */
+export class BuildProcessTerminal implements vscode.Pseudoterminal {
+  private writeEmitter = new vscode.EventEmitter<string>();
+  private closeEmitter = new vscode.EventEmitter<number>();
+  readonly onDidWrite: vscode.Event<string> = this.writeEmitter.event;
+  readonly onDidClose: vscode.Event<number> = this.closeEmitter.event;
+
+  private cancellation = new vscode.CancellationTokenSource();
+  private startTime = 0;
+  private errors = 0;
+  private warnings = 0;
+  private partialLine = '';
+  private finished = false;
+  private logEntry: BuildLogEntry | undefined;
+
+  /**
+   * Creates a new BuildProcessTerminal.
+   * @param command The executable to spawn.
+   * @param args The arguments passed to the executable.
+   * @param cwd The working directory of the process.
+   * @param log The log that records the invocation and its output.
+   * @param targets The targets built by the invocation, summarized in the log when there are several.
+   * @param onStart Called once the process has been spawned.
+   * @param onExit Called with the result once the process has exited.
+   */
+  constructor(
+    private command: string,
+    private args: string[],
+    private cwd: string,
+    private log: BuildLog,
+    private targets: BuildTarget[] | undefined,
+    private onStart: () => void,
+    private onExit: (result: BuildProcessResult) => void
+  ) {}
+
+  open(): void {
+    this.startTime = Date.now();
+    this.write(`> ${formatCommandLine(this.command, this.args)}\n\n`);
+    this.logEntry = this.log.start(this.command, this.args, this.cwd, this.targets);
+    this.onStart();
+
+    runProcess(this.command, this.args, {
+      cwd: this.cwd,
+      token: this.cancellation.token,
+      onOutput: (text) => this.handleOutput(text),
+    }).then(
+      (result) => this.finish(result.exitCode, result.cancelled),
+      (err) => {
+        this.handleOutput(`${err.message}\n`);
+        this.finish(1);
+      }
+    );
+  }
+
+  close(): void {
+    // Closing the task terminal stops the process
+    if (!this.finished) {
+      this.cancellation.cancel();
+    }
+  }
+
+  /**
+   * Writes and logs every complete line of process output.
+   */
+  private handleOutput(data: string) {
+    const lines = (this.partialLine + data).split(/\r?\n/);
+    this.partialLine = lines.pop() ?? '';
+    lines.forEach((line) => this.handleLine(line));
+  }
+
+  /**
+   * Writes a line of process output and logs it with the diagnostic it holds.
+   */
+  private handleLine(line: string) {
+    const diagnostic = parseDiagnostic(line);
+    this.write(`${diagnostic ? resolveDiagnosticPath(line, diagnostic, this.cwd) : line}\n`);
+    if (diagnostic?.severity === 'error') {
+      this.errors++;
+    } else if (diagnostic?.severity === 'warning') {
+      this.warnings++;
+    }
+    this.logEntry?.line(line, diagnostic);
+  }
+
+  private write(text: string) {
+    this.writeEmitter.fire(text.replace(/\r?\n/g, '\r\n'));
+  }
+
+  private finish(exitCode: number, cancelled = false) {
+    if (this.finished) {
+      return;
+    }
+    this.finished = true;
+
+    if (this.partialLine) {
+      this.handleLine(this.partialLine);
+      this.partialLine = '';
+    }
+
+    const duration = Date.now() - this.startTime;
+    this.write(cancelled ? '\nProcess stopped.\n' : `\nProcess exited with code ${exitCode}.\n`);
+    this.logEntry?.finish(exitCode, this.errors, this.warnings, cancelled);
+    this.onExit({
+      exitCode,
+      logId: this.logEntry?.id,
+      cancelled,
+      duration,
+      errors: this.errors,
+      warnings: this.warnings,
+    });
+    this.closeEmitter.fire(exitCode);
+    this.cancellation.dispose();
+  }
+}
+
+/**
+ * FailedTaskTerminal stands in for a task that cannot start, e.g. a task from tasks.json
+ * that the checks of runTask were skipped for. It prints the reason and fails the task.
+ */
+export class FailedTaskTerminal implements vscode.Pseudoterminal {
+  private writeEmitter = new vscode.EventEmitter<string>();
+  private closeEmitter = new vscode.EventEmitter<number>();
+  readonly onDidWrite: vscode.Event<string> = this.writeEmitter.event;
+  readonly onDidClose: vscode.Event<number> = this.closeEmitter.event;
+
+  /**
+   * @param message Why the task cannot start.
+   */
+  constructor(private message: string) {}
+
+  open(): void {
+    this.writeEmitter.fire(`${this.message}\r\n`);
+    this.closeEmitter.fire(1);
+  }
+
+  close(): void {}
+}
+
+/**
+ * Makes the file of a diagnostic line absolute, resolving it against the working directory
+ * of the build.
+ */
+function resolveDiagnosticPath(line: string, diagnostic: BuildDiagnostic, cwd: string): string {
+  return path.isAbsolute(diagnostic.file) ? line : line.replace(diagnostic.file, path.resolve(cwd, diagnostic.file));
+}
+
+/**
+ * Returns the GCC/Clang or MSVC diagnostic on a line of compiler output.
+ */
+export function parseDiagnostic(line: string): BuildDiagnostic | undefined {
+  const gcc = GCC_DIAGNOSTIC.exec(line);
+  if (gcc) {
+    return { file: gcc[1], severity: gcc[4] as BuildDiagnostic['severity'] };
+  }
+  const msvc = MSVC_DIAGNOSTIC.exec(line);
+  if (msvc && (msvc[3] === 'error' || msvc[3] === 'warning')) {
+    return { file: msvc[1], severity: msvc[3] };
+  }
+  return undefined;
+}
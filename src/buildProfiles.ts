@@ -0,0 +1,306 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { MiracleProjectManager } from './projects';
+import { MIRACLE_PLATFORMS, isPlatformSupported } from './platform';
+import { splitShellArguments } from './processRunner';
+
+/**
+ * A named build selection: the platform, link type and build type the Build Panel actions
+ * use, and extra arguments passed to the framework scripts.
+ */
+export interface BuildProfile {
+  name: string;
+  platform: string;
+  linkType: string;
+  buildType: string;
+  args?: string[];
+}
+
+/**
+ * The argument build commands accept from keybindings, e.g.
+ * `{ "command": "miracle.buildExecutable", "args": { "profile": "linux-debug-dynamic" } }`.
+ */
+export interface BuildProfileArgument {
+  profile: string;
+}
+
+/**
+ * The checked-in file of a workspace folder holding shared build profiles.
+ */
+export const PROFILE_FILE = path.join('.vscode', 'miracle.json');
+
+const PROFILES_KEY = 'miracle.buildProfiles';
+const ACTIVE_PROFILE_KEY = 'miracle.buildProfile';
+
+/**
+ * Returns the built-in profiles, one for every combination of platform, build type and link
+ * type, e.g. 'linux-debug-dynamic' or 'win-release-static'. Platforms that cannot be built
+ * from this machine are left out.
+ */
+export function getDefaultProfiles(): BuildProfile[] {
+  const profiles: BuildProfile[] = [];
+  for (const platform of [...MIRACLE_PLATFORMS].reverse().filter(isPlatformSupported)) {
+    for (const buildType of ['debug', 'release']) {
+      for (const linkType of ['dynamic', 'static']) {
+        const prefix = platform === 'windows' ? 'win' : platform;
+        profiles.push({ name: `${prefix}-${buildType}-${linkType}`, platform, linkType, buildType });
+      }
+    }
+  }
+  return profiles;
+}
+
+/**
+ * BuildProfileStore keeps the build profiles of the workspace and the one currently
+ * selected. Profiles come from the built-in defaults, the workspace state and the
+ * .vscode/miracle.json file of the active project's folder, later sources overriding
+ * earlier ones with the same name. The selected profile is shown in the status bar.
+ */
+export class BuildProfileStore implements vscode.Disposable {
+  private _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+  private statusItem: vscode.StatusBarItem;
+  private disposables: vscode.Disposable[] = [];
+  /** The profiles of .vscode/miracle.json, read again only after the file or the active project changes. */
+  private fileProfiles: BuildProfile[] | undefined;
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private projectManager: MiracleProjectManager
+  ) {
+    this.statusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 51);
+    this.statusItem.name = 'Miracle Build Profile';
+    this.statusItem.command = 'miracle.selectBuildProfile';
+
+    const fileWatcher = vscode.workspace.createFileSystemWatcher(`**/${PROFILE_FILE.split(path.sep).join('/')}`);
+    this.disposables.push(
+      this.statusItem,
+      fileWatcher,
+      fileWatcher.onDidCreate(() => this.profileFileChanged()),
+      fileWatcher.onDidChange(() => this.profileFileChanged()),
+      fileWatcher.onDidDelete(() => this.profileFileChanged()),
+      projectManager.onDidChangeActiveProject(() => this.profileFileChanged()),
+      projectManager.onDidChangeProjects(() => this.updateStatus())
+    );
+    this.updateStatus();
+  }
+
+  /**
+   * All profiles available in the workspace, ordered by name.
+   */
+  get profiles(): BuildProfile[] {
+    const profiles = new Map<string, BuildProfile>();
+    const sources = [
+      getDefaultProfiles(),
+      this.context.workspaceState.get<BuildProfile[]>(PROFILES_KEY, []),
+      (this.fileProfiles ??= this.readProfileFile()),
+    ];
+    for (const profile of sources.flat()) {
+      profiles.set(profile.name, profile);
+    }
+    return [...profiles.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * The selected profile, or undefined when the Build Panel selection has been changed by hand.
+   */
+  get activeProfile(): BuildProfile | undefined {
+    const name = this.context.workspaceState.get<string>(ACTIVE_PROFILE_KEY);
+    return name === undefined ? undefined : this.profiles.find((profile) => profile.name === name);
+  }
+
+  /**
+   * Selects a profile, or clears the selection when no name is given.
+   */
+  async setActiveProfile(name: string | undefined) {
+    if (name !== this.context.workspaceState.get<string>(ACTIVE_PROFILE_KEY)) {
+      await this.context.workspaceState.update(ACTIVE_PROFILE_KEY, name);
+      this.changed();
+    }
+  }
+
+  /**
+   * Resolves the profile a build command runs with.
+   * @param argument The profile named by a keybinding, if any.
+   * @param fallback The selection used when no profile is named or selected.
+   * @returns The profile, or undefined if the named profile does not exist.
+   */
+  resolve(argument: BuildProfileArgument | undefined, fallback: Omit<BuildProfile, 'name'>): BuildProfile | undefined {
+    if (argument?.profile) {
+      const profile = this.profiles.find((p) => p.name === argument.profile);
+      if (!profile) {
+        vscode.window.showErrorMessage(`Unknown build profile '${argument.profile}'.`);
+      }
+      return profile;
+    }
+    return this.activeProfile ?? { name: 'custom', ...fallback };
+  }
+
+  /**
+   * Lets the user select a profile from a quick pick.
+   */
+  async selectProfile(): Promise<BuildProfile | undefined> {
+    const active = this.activeProfile;
+    const picked = await vscode.window.showQuickPick(
+      this.profiles.map((profile) => ({
+        label: profile.name,
+        description: [profile.platform, profile.linkType, profile.buildType, ...(profile.args ?? [])].join(' · '),
+        picked: profile.name === active?.name,
+        profile,
+      })),
+      { placeHolder: 'Select the build profile' }
+    );
+    if (picked) {
+      await this.setActiveProfile(picked.profile.name);
+    }
+    return picked?.profile;
+  }
+
+  /**
+   * Saves a selection as a named profile, asking for its name, extra arguments and whether
+   * to keep it in the workspace state or in the checked-in .vscode/miracle.json.
+   */
+  async saveProfile(selection: Omit<BuildProfile, 'name' | 'args'>): Promise<BuildProfile | undefined> {
+    const name = await vscode.window.showInputBox({
+      prompt: 'Enter the name of the build profile',
+      value: this.activeProfile?.name,
+      validateInput: (value) => (value.trim() === '' ? 'Profile name cannot be empty.' : null),
+    });
+    if (!name) {
+      return undefined;
+    }
+
+    const extraArgs = await vscode.window.showInputBox({
+      prompt: 'Extra arguments passed to the build scripts, quoted like in a shell (optional)',
+      validateInput: (value) => (splitShellArguments(value) ? null : 'A closing quote is missing.'),
+    });
+    if (extraArgs === undefined) {
+      return undefined;
+    }
+
+    const location = await vscode.window.showQuickPick(
+      [
+        { label: 'Workspace', description: 'Only on this machine', shared: false },
+        { label: PROFILE_FILE, description: 'Checked in and shared with the team', shared: true },
+      ],
+      { placeHolder: 'Where should the profile be saved?' }
+    );
+    if (!location) {
+      return undefined;
+    }
+
+    const args = splitShellArguments(extraArgs) ?? [];
+    const profile: BuildProfile = { name: name.trim(), ...selection, ...(args.length > 0 ? { args } : {}) };
+
+    if (location.shared) {
+      if (!this.writeProfileFile(profile)) {
+        return undefined;
+      }
+    } else {
+      const saved = this.context.workspaceState.get<BuildProfile[]>(PROFILES_KEY, []);
+      await this.context.workspaceState.update(PROFILES_KEY, [
+        ...saved.filter((p) => p.name !== profile.name),
+        profile,
+      ]);
+    }
+
+    await this.context.workspaceState.update(ACTIVE_PROFILE_KEY, profile.name);
+    this.changed();
+    return profile;
+  }
+
+  /**
+   * Returns the path of the profile file for the active project's workspace folder.
+   */
+  private getProfileFilePath(): string | undefined {
+    const folder = this.projectManager.activeProject?.folder ?? vscode.workspace.workspaceFolders?.[0];
+    return folder && path.join(folder.uri.fsPath, PROFILE_FILE);
+  }
+
+  /**
+   * Reads the profile file. A file that cannot be parsed is reported here, so once per change.
+   */
+  private readProfileFile(): BuildProfile[] {
+    const filePath = this.getProfileFilePath();
+    if (!filePath || !fs.existsSync(filePath)) {
+      return [];
+    }
+
+    try {
+      const content = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      return Array.isArray(content.profiles) ? content.profiles.filter(isBuildProfile) : [];
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Failed to read ${filePath}: ${error.message}`);
+      return [];
+    }
+  }
+
+  private writeProfileFile(profile: BuildProfile): boolean {
+    const filePath = this.getProfileFilePath();
+    if (!filePath) {
+      vscode.window.showErrorMessage('No workspace folder is open.');
+      return false;
+    }
+
+    try {
+      const content = fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf-8')) : {};
+      const profiles: BuildProfile[] = Array.isArray(content.profiles) ? content.profiles : [];
+      content.profiles = [...profiles.filter((p) => p.name !== profile.name), profile];
+
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, JSON.stringify(content, null, 2) + '\n');
+      this.fileProfiles = undefined;
+      return true;
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Failed to save the profile to ${filePath}: ${error.message}`);
+      return false;
+    }
+  }
+
+  private profileFileChanged() {
+    this.fileProfiles = undefined;
+    this.changed();
+  }
+
+  private changed() {
+    this.updateStatus();
+    this._onDidChange.fire();
+  }
+
+  private updateStatus() {
+    // Only shown in workspaces with a Miracle project
+    if (this.projectManager.projects.length === 0) {
+      this.statusItem.hide();
+      return;
+    }
+    this.statusItem.show();
+
+    const profile = this.activeProfile;
+    this.statusItem.text = `$(settings-gear) ${profile?.name ?? 'custom'}`;
+    this.statusItem.tooltip = profile
+      ? `Miracle: build profile ${profile.name} (${profile.platform}, ${profile.linkType}, ${profile.buildType}). Click to change.`
+      : 'Miracle: the Build Panel selection is used. Click to select a build profile.';
+  }
+
+  dispose() {
+    this.disposables.forEach((d) => d.dispose());
+    this._onDidChange.dispose();
+  }
+}
+
+/**
+ * Checks that a profile read from .vscode/miracle.json has the required fields.
+ */
+function isBuildProfile(value: any): value is BuildProfile {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof value.name === 'string' &&
+    typeof value.platform === 'string' &&
+    typeof value.linkType === 'string' &&
+    typeof value.buildType === 'string' &&
+    (value.args === undefined || (Array.isArray(value.args) && value.args.every((arg: any) => typeof arg === 'string')))
+  );
+}
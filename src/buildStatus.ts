@@ -0,0 +1,163 @@
+import * as vscode from 'vscode';
+import {
+  MiracleTaskDefinition,
+  MiracleTaskEndEvent,
+  MiracleTaskStartEvent,
+  getPlatform,
+  isBuildCommand,
+} from './taskProvider';
+import { formatDuration, pluralize } from './format';
+
+/**
+ * BuildStatusBar shows the current build selection in the status bar, a spinner while a
+ * Miracle task is running and the outcome of the last build once it finishes. Clicking the
+ * item reveals the build output.
+ */
+export class BuildStatusBar implements vscode.Disposable {
+  private item: vscode.StatusBarItem;
+  private stopItem: vscode.StatusBarItem;
+  private running = 0;
+  private selection: MiracleTaskDefinition;
+
+  /**
+   * Creates a new BuildStatusBar.
+   * @param selection The build selection shown before any build has run.
+   */
+  constructor(selection: MiracleTaskDefinition) {
+    this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 50);
+    this.item.name = 'Miracle Build';
+    this.item.command = 'miracle.showBuildOutput';
+    this.selection = selection;
+    this.showSelection();
+
+    this.stopItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 50);
+    this.stopItem.name = 'Miracle Stop';
+    this.stopItem.text = '$(debug-stop)';
+    this.stopItem.tooltip = 'Miracle: stop the running builds and executables';
+    this.stopItem.command = 'miracle.stop';
+  }
+
+  /**
+   * Shows or hides the build item, which is only shown in workspaces with a Miracle project.
+   */
+  setVisible(visible: boolean) {
+    if (visible) {
+      this.item.show();
+    } else {
+      this.item.hide();
+    }
+  }
+
+  /**
+   * Changes the build selection, shown right away unless a task is running.
+   */
+  setSelection(selection: MiracleTaskDefinition) {
+    this.selection = selection;
+    if (this.running === 0) {
+      this.showSelection();
+    }
+  }
+
+  /**
+   * Shows a spinner for a task that has started.
+   */
+  taskStarted(event: MiracleTaskStartEvent) {
+    this.running++;
+    if (isBuildCommand(event.definition.command)) {
+      this.selection = event.definition;
+    }
+    this.item.text = `$(sync~spin) ${event.name}`;
+    this.item.tooltip = `Miracle: running ${event.name}`;
+    this.item.backgroundColor = undefined;
+    this.stopItem.show();
+  }
+
+  /**
+   * Shows the outcome of a finished task and notifies the user about it.
+   * @param quiet Whether success is only shown in the status bar, as for hot compiles on save.
+   */
+  taskEnded(event: MiracleTaskEndEvent, quiet = false) {
+    this.running = Math.max(0, this.running - 1);
+    if (this.running === 0) {
+      this.stopItem.hide();
+    }
+
+    const { exitCode, duration, errors, warnings, cancelled } = event.result;
+    const elapsed = formatDuration(duration);
+    const succeeded = exitCode === 0;
+
+    const isBuild = isBuildCommand(event.definition.command);
+
+    // Stopped tasks did not fail, they are only noted in the status bar
+    if (cancelled) {
+      if (isBuild) {
+        this.item.text = `$(debug-stop) ${describeSelection(event.definition)} (stopped)`;
+        this.item.tooltip = `Miracle: ${event.name} was stopped after ${elapsed}`;
+        this.item.backgroundColor = undefined;
+      } else if (this.running === 0) {
+        this.showSelection();
+      }
+      return;
+    }
+
+    if (isBuild) {
+      const counts = `${pluralize(errors, 'error')}, ${pluralize(warnings, 'warning')}`;
+      this.item.text = succeeded
+        ? `$(check) ${describeSelection(event.definition)} (${elapsed})`
+        : `$(error) ${describeSelection(event.definition)} (${pluralize(errors, 'error')})`;
+      this.item.tooltip = succeeded
+        ? `Miracle: ${event.name} succeeded in ${elapsed} (${counts})`
+        : `Miracle: ${event.name} failed in ${elapsed} (${counts})`;
+      this.item.backgroundColor = succeeded ? undefined : new vscode.ThemeColor('statusBarItem.errorBackground');
+    } else if (this.running === 0) {
+      this.showSelection();
+    }
+
+    let notification: Thenable<string | undefined>;
+    if (succeeded) {
+      if (!isBuild || quiet) {
+        return;
+      }
+      notification = vscode.window.showInformationMessage(
+        `Miracle: '${event.name}' succeeded in ${elapsed}.`,
+        'Show Output'
+      );
+    } else {
+      notification = vscode.window.showErrorMessage(
+        `Miracle: '${event.name}' failed with exit code ${exitCode} after ${elapsed}` +
+          (errors > 0 ? ` (${pluralize(errors, 'error')}).` : '.'),
+        'Show Output'
+      );
+    }
+
+    notification.then((choice) => {
+      if (choice === 'Show Output') {
+        vscode.commands.executeCommand('miracle.showBuildOutput');
+      }
+    });
+  }
+
+  /**
+   * Shows the target, platform and build type of a build selection.
+   */
+  private showSelection() {
+    this.item.text = `$(tools) ${describeSelection(this.selection)}`;
+    this.item.tooltip = 'Miracle: show build output';
+    this.item.backgroundColor = undefined;
+  }
+
+  dispose() {
+    this.item.dispose();
+    this.stopItem.dispose();
+  }
+}
+
+/**
+ * Describes the target, platform and build type of a task definition.
+ */
+function describeSelection(definition: MiracleTaskDefinition): string {
+  const target = definition.command === 'build' ? definition.target ?? 'all' : 'executable';
+  // build.py hot compiles unless another build type is given, like in getTaskName
+  const buildType = definition.buildType ?? (definition.command === 'build' ? 'hot' : 'debug');
+  return [target, getPlatform(definition), buildType].join(' · ');
+}
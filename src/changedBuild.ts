@@ -0,0 +1,164 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { BuildProcessResult } from './buildProcess';
+import { findDependents, topologicalOrder } from './dependencyGraph';
+import { getFrameworkPath } from './interpreter';
+import { getTargetBuildStatus } from './librarySources';
+import { MiracleProject, MiracleProjectManager } from './projects';
+import { MIRACLE_TASK_TYPE, MiracleTaskProvider, getExecutablePath } from './taskProvider';
+
+/**
+ * The targets a "Build Changed" hot compiles.
+ */
+export interface ChangedBuildPlan {
+  /** The targets whose sources are newer than their hot compiled artifacts, or that were never built. */
+  stale: string[];
+  /** The stale targets and every target depending on them, dependencies first. */
+  order: string[];
+}
+
+/**
+ * Finds the targets of a project that have to be hot compiled for a platform: those with
+ * sources newer than their artifacts and everything downstream of them in config.ini.
+ * @returns The plan, or undefined if the dependencies contain a cycle.
+ */
+export async function planChangedBuild(project: MiracleProject, platform: string): Promise<ChangedBuildPlan | undefined> {
+  const graph = project.config.getDependencyGraph();
+  const order = topologicalOrder(graph);
+  if (!order) {
+    return undefined;
+  }
+
+  // Hot compiles share the output folder of debug builds
+  const frameworkRoot = getFrameworkPath(project.root);
+  const outputDir = path.join(frameworkRoot, path.dirname(getExecutablePath(platform, 'hot')));
+  const targets = project.config.getBuildTargets();
+  const statuses = await Promise.all(
+    targets.map((target) => getTargetBuildStatus(frameworkRoot, target, targets, outputDir))
+  );
+  const stale = targets.filter((_target, index) => statuses[index].state !== 'upToDate').map((target) => target.name);
+
+  const affected = new Set([...stale, ...findDependents(graph, stale)]);
+  return { stale, order: order.filter((node) => affected.has(node)) };
+}
+
+/**
+ * ChangedBuild hot compiles only the targets affected by source changes since their last
+ * build, one at a time in dependency order. A failed target stops the ones after it.
+ */
+export class ChangedBuild {
+  private running = false;
+
+  constructor(
+    private projectManager: MiracleProjectManager,
+    private taskProvider: MiracleTaskProvider
+  ) {}
+
+  /**
+   * Plans and runs a Build Changed for the active project.
+   * @param platform The platform to hot compile for.
+   * @param args Extra arguments passed to every build, e.g. from a build profile.
+   */
+  async run(platform: string, args?: string[]) {
+    const project = this.projectManager.resolveProject();
+    if (!project) {
+      return;
+    }
+    if (this.running) {
+      vscode.window.showInformationMessage('Miracle: a Build Changed is already running.');
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.buildChanged(project, platform, args);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Plans the targets to hot compile and builds them in order, stopping at the first failure.
+   */
+  private async buildChanged(project: MiracleProject, platform: string, args?: string[]) {
+    const plan = await planChangedBuild(project, platform);
+    if (!plan) {
+      const action = await vscode.window.showErrorMessage(
+        'Cannot determine the build order: the dependencies in config.ini contain a cycle.',
+        'Show Dependency Graph'
+      );
+      if (action) {
+        vscode.commands.executeCommand('miracle.showDependencyGraph');
+      }
+      return;
+    }
+    if (plan.order.length === 0) {
+      vscode.window.showInformationMessage(`Miracle: every target is up to date for ${platform}.`);
+      return;
+    }
+
+    const downstream = plan.order.length - plan.stale.length;
+    vscode.window.setStatusBarMessage(
+      `Miracle: building ${plan.order.join(', ')}` + (downstream > 0 ? ` (${downstream} downstream of a change)` : ''),
+      5000
+    );
+
+    for (const [index, target] of plan.order.entries()) {
+      const result = await this.build(project, target, platform, args);
+      if (result?.exitCode !== 0) {
+        // A stopped build ends the sequence without reporting it as a failure
+        const skipped = plan.order.slice(index + 1);
+        if (skipped.length > 0 && !result?.cancelled) {
+          vscode.window.showWarningMessage(`Miracle: '${target}' did not build, skipped ${skipped.join(', ')}.`);
+        }
+        return;
+      }
+    }
+  }
+
+  /**
+   * Hot compiles one target and waits for it to finish.
+   * @returns The result, or undefined if the build was not started.
+   */
+  private build(
+    project: MiracleProject,
+    target: string,
+    platform: string,
+    args?: string[]
+  ): Promise<BuildProcessResult | undefined> {
+    return new Promise((resolve) => {
+      // The result is reported before the task ends, the end is matched by its execution so
+      // that another build of the same target, e.g. a hot reload, is not taken for this one
+      let execution: vscode.TaskExecution | undefined;
+      let result: BuildProcessResult | undefined;
+      const listeners = [
+        this.taskProvider.onDidEndTask((event) => {
+          if (execution && event.projectRoot === project.root && event.definition.target === target) {
+            result = event.result;
+          }
+        }),
+        vscode.tasks.onDidEndTask((event) => {
+          if (execution && event.execution === execution) {
+            done(result);
+          }
+        }),
+      ];
+
+      const done = (value: BuildProcessResult | undefined) => {
+        listeners.forEach((listener) => listener.dispose());
+        resolve(value);
+      };
+      this.taskProvider
+        .runTask({ type: MIRACLE_TASK_TYPE, command: 'build', target, platform, buildType: 'hot', args }, project)
+        .then(
+          (started) => {
+            execution = started;
+            if (!started) {
+              done(undefined);
+            }
+          },
+          () => done(undefined)
+        );
+    });
+  }
+}
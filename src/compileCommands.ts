@@ -0,0 +1,267 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DependencyGraph } from './dependencyGraph';
+import { getFrameworkPath } from './interpreter';
+import { listSourceFiles } from './librarySources';
+import { findCompilers, getHostPlatform } from './platform';
+import { MiracleProject, MiracleProjectManager } from './projects';
+
+/**
+ * An entry of compile_commands.json, see https://clang.llvm.org/docs/JSONCompilationDatabase.html.
+ */
+export interface CompileCommand {
+  directory: string;
+  file: string;
+  arguments: string[];
+}
+
+/**
+ * The platform, build type and extra defines IntelliSense is configured for, from the
+ * miracle.intelliSense settings.
+ */
+export interface CompileCommandOptions {
+  platform: string;
+  buildType: string;
+  defines: string[];
+  /** Replaces the flags of the build type when not empty. */
+  compilerArgs: string[];
+}
+
+/**
+ * Where the compilation database is written, relative to the project root.
+ */
+const COMPILE_COMMANDS_FILE = path.join('.vscode', 'compile_commands.json');
+
+/**
+ * The compiler flags of each build type, for GCC-style compilers and for MSVC. They
+ * approximate what build.py passes, which the framework does not expose; they only steer
+ * IntelliSense, and miracle.intelliSense.compilerArgs replaces them with the exact flags.
+ */
+const BUILD_TYPE_FLAGS: Record<string, { gcc: string[]; msvc: string[] }> = {
+  hot: { gcc: ['-g', '-O0', '-fPIC'], msvc: ['/Zi', '/Od', '/MDd'] },
+  debug: { gcc: ['-g', '-O0'], msvc: ['/Zi', '/Od', '/MDd'] },
+  release: { gcc: ['-O2', '-DNDEBUG'], msvc: ['/O2', '/DNDEBUG', '/MD'] },
+};
+
+/**
+ * Defines the compilers targeting each platform predefine, added in case the compiler in the
+ * database is not one of them, e.g. the host GCC when MinGW-w64 is not installed. Like
+ * BUILD_TYPE_FLAGS they are an approximation, miracle.intelliSense.defines adds to them.
+ */
+const PLATFORM_DEFINES: Record<string, string[]> = {
+  windows: ['_WIN32', 'WIN32', '_WINDOWS'],
+  linux: [],
+};
+
+/**
+ * Returns the folders a target's sources include headers from: the project root, the
+ * framework's include folder, and the folders of the target and of every library it
+ * depends on, directly or not, each with its include subfolder when it has one.
+ * @param dirs The source folder of every target by graph node.
+ */
+export function getIncludeDirs(
+  project: MiracleProject,
+  target: string,
+  graph: DependencyGraph,
+  dirs: Map<string, string>
+): string[] {
+  const nodes = [target];
+  for (let i = 0; i < nodes.length; i++) {
+    for (const dependency of graph.get(nodes[i]) ?? []) {
+      if (!nodes.includes(dependency)) {
+        nodes.push(dependency);
+      }
+    }
+  }
+
+  const candidates = [
+    project.root,
+    path.join(getFrameworkPath(project.root), 'include'),
+    ...nodes.flatMap((node) => {
+      const dir = dirs.get(node);
+      return dir ? [dir, path.join(dir, 'include')] : [];
+    }),
+  ];
+  return [...new Set(candidates)].filter((dir) => fs.existsSync(dir));
+}
+
+/**
+ * Creates a compilation database for every source file of the application and the libraries,
+ * with the include folders of its target and the flags of the configured build type.
+ */
+export async function createCompileCommands(
+  project: MiracleProject,
+  options: CompileCommandOptions
+): Promise<CompileCommand[]> {
+  const compilers =
+    findCompilers(options.platform) ??
+    (options.platform === 'windows' && getHostPlatform() !== 'windows'
+      ? ['x86_64-w64-mingw32-gcc', 'x86_64-w64-mingw32-g++']
+      : ['gcc', 'g++']);
+  const msvc = compilers[0] === 'cl';
+  const frameworkRoot = getFrameworkPath(project.root);
+
+  const graph = project.config.getDependencyGraph();
+  const targets = project.config.getBuildTargets();
+  const dirs = new Map(targets.map((target) => [target.name, target.dir]));
+  const dynamicLibraries = project.config
+    .getLibraries()
+    .filter((library) => library.type === 'dynamic')
+    .map((library) => library.name);
+
+  const commands = await Promise.all(
+    targets.map(async (target) => {
+      const flags =
+        options.compilerArgs.length > 0
+          ? [...options.compilerArgs]
+          : [...(BUILD_TYPE_FLAGS[options.buildType] ?? BUILD_TYPE_FLAGS.debug)[msvc ? 'msvc' : 'gcc']];
+      if (!msvc && dynamicLibraries.includes(target.name) && !flags.includes('-fPIC')) {
+        flags.push('-fPIC');
+      }
+      const defines = [...(PLATFORM_DEFINES[options.platform] ?? []), ...options.defines];
+      flags.push(...defines.map((define) => (msvc ? '/D' : '-D') + define));
+      flags.push(...getIncludeDirs(project, target.name, graph, dirs).map((dir) => (msvc ? '/I' : '-I') + dir));
+
+      return (await listSourceFiles(target.dir)).map((file) => {
+        const compiler = path.extname(file) === '.c' ? compilers[0] : (compilers[1] ?? compilers[0]);
+        return { directory: frameworkRoot, file, arguments: [compiler, ...flags, msvc ? '/c' : '-c', file] };
+      });
+    })
+  );
+  return commands.flat();
+}
+
+/**
+ * CompileCommandsGenerator keeps a compile_commands.json in each project's .vscode folder
+ * so that the C/C++ extension and clangd resolve includes between libraries. Once turned on
+ * in the settings it is regenerated whenever config.ini changes, and the user is offered to
+ * point the C/C++ extension at the file unless it is already configured with one.
+ */
+export class CompileCommandsGenerator implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = [];
+  private configListeners: vscode.Disposable[] = [];
+  /** The workspace folders the user was already asked about configuring the C/C++ extension. */
+  private askedFolders = new Set<string>();
+
+  constructor(private projectManager: MiracleProjectManager) {
+    this.disposables.push(
+      projectManager.onDidChangeProjects(() => this.watchProjects()),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration('miracle.intelliSense') && this.enabled) {
+          this.projectManager.projects.forEach((project) => this.generate(project));
+        }
+      })
+    );
+    this.watchProjects();
+  }
+
+  /**
+   * Whether compile_commands.json is generated automatically.
+   */
+  get enabled(): boolean {
+    return vscode.workspace.getConfiguration('miracle.intelliSense').get<boolean>('enabled', false);
+  }
+
+  /**
+   * The platform, build type, defines and compiler arguments from the settings.
+   */
+  get options(): CompileCommandOptions {
+    const config = vscode.workspace.getConfiguration('miracle.intelliSense');
+    return {
+      platform: config.get<string>('platform') ?? getHostPlatform() ?? 'linux',
+      buildType: config.get<string>('buildType', 'hot'),
+      defines: config.get<string[]>('defines', []),
+      compilerArgs: config.get<string[]>('compilerArgs', []),
+    };
+  }
+
+  /**
+   * Regenerates compile_commands.json for every project, also when automatic generation
+   * is turned off.
+   */
+  async regenerate() {
+    const files = await Promise.all(this.projectManager.projects.map((project) => this.generate(project)));
+    const written = files.filter(Boolean);
+    if (written.length > 0) {
+      vscode.window.setStatusBarMessage(`Miracle: updated ${written.join(', ')}`, 5000);
+    }
+  }
+
+  /**
+   * Writes a project's compile_commands.json when its content changed.
+   * @returns The path of the file, or undefined if it could not be written.
+   */
+  async generate(project: MiracleProject): Promise<string | undefined> {
+    const file = path.join(project.root, COMPILE_COMMANDS_FILE);
+    const content = JSON.stringify(await createCompileCommands(project, this.options), null, 2) + '\n';
+    try {
+      if (!fs.existsSync(file) || fs.readFileSync(file, 'utf-8') !== content) {
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, content);
+      }
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Failed to write ${file}: ${error.message}`);
+      return undefined;
+    }
+
+    this.configureCppTools(project, file);
+    return file;
+  }
+
+  /**
+   * Offers to set C_Cpp.default.compileCommands for the project's workspace folder when the
+   * C/C++ extension is installed and no compilation database is configured yet. The user is
+   * asked once per folder and session.
+   */
+  private async configureCppTools(project: MiracleProject, file: string) {
+    if (!vscode.extensions.getExtension('ms-vscode.cpptools')) {
+      return;
+    }
+    const config = vscode.workspace.getConfiguration('C_Cpp.default', project.folder.uri);
+    const current = config.inspect('compileCommands');
+    const folderKey = project.folder.uri.toString();
+    const configured = current?.workspaceFolderValue || current?.workspaceValue || current?.globalValue;
+    if (configured || this.askedFolders.has(folderKey)) {
+      return;
+    }
+    this.askedFolders.add(folderKey);
+
+    const relative = path.relative(project.folder.uri.fsPath, file).split(path.sep).join('/');
+    const choice = await vscode.window.showInformationMessage(
+      `Set C_Cpp.default.compileCommands in '${project.folder.name}' to the generated ${relative}?`,
+      'Set',
+      'Not Now'
+    );
+    if (choice !== 'Set') {
+      return;
+    }
+    try {
+      await config.update('compileCommands', `\${workspaceFolder}/${relative}`, vscode.ConfigurationTarget.WorkspaceFolder);
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Failed to set C_Cpp.default.compileCommands: ${error.message}`);
+    }
+  }
+
+  /**
+   * Regenerates a project's compile_commands.json whenever its config.ini changes.
+   */
+  private watchProjects() {
+    this.configListeners.forEach((d) => d.dispose());
+    this.configListeners = this.projectManager.projects.map((project) =>
+      project.config.onDidChangeConfigFile(() => {
+        if (this.enabled) {
+          this.generate(project);
+        }
+      })
+    );
+    if (this.enabled) {
+      this.projectManager.projects.forEach((project) => this.generate(project));
+    }
+  }
+
+  dispose() {
+    this.configListeners.forEach((d) => d.dispose());
+    this.disposables.forEach((d) => d.dispose());
+  }
+}
@@ -0,0 +1,206 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { MiracleProject, MiracleProjectManager } from './projects';
+import { getHostPlatform } from './platform';
+import { getFrameworkPath } from './interpreter';
+import { MIRACLE_TASK_TYPE, MiracleTaskDefinition, MiracleTaskProvider, getExecutablePath } from './taskProvider';
+
+/**
+ * The debug adapters configurations can be generated for: the C/C++ extension (cppdbg),
+ * CodeLLDB (lldb) and Native Debug (gdb).
+ */
+export const MIRACLE_DEBUGGERS = ['cppdbg', 'lldb', 'gdb'] as const;
+export type MiracleDebugger = (typeof MIRACLE_DEBUGGERS)[number];
+
+const SHARED_LIBRARY = /\.(so(\.\d+)*|dll|dylib)$/;
+
+/**
+ * The executable a debug configuration launches, as selected in the Build Panel.
+ */
+export interface MiracleDebugTarget {
+  platform: string;
+  buildType: string;
+  linkType: string;
+}
+
+/**
+ * MiracleDebugConfigurationProvider generates launch configurations for the executable
+ * produced by build-exe, the same one "Run Executable" starts. Each configuration builds the
+ * executable first through a "miracle" preLaunchTask, and lists the folders holding the
+ * built shared libraries so that breakpoints in hot reloaded library code bind.
+ */
+export class MiracleDebugConfigurationProvider implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private projectManager: MiracleProjectManager,
+    private taskProvider: MiracleTaskProvider
+  ) {
+    for (const debuggerType of MIRACLE_DEBUGGERS) {
+      const provider: vscode.DebugConfigurationProvider = {
+        provideDebugConfigurations: (folder) => this.provideDebugConfigurations(debuggerType, folder),
+        resolveDebugConfigurationWithSubstitutedVariables: (folder, config) =>
+          this.resolveDebugConfiguration(folder, config),
+      };
+      this.disposables.push(
+        vscode.debug.registerDebugConfigurationProvider(debuggerType, provider),
+        vscode.debug.registerDebugConfigurationProvider(
+          debuggerType,
+          provider,
+          vscode.DebugConfigurationProviderTriggerKind.Dynamic
+        )
+      );
+    }
+  }
+
+  /**
+   * Provides a configuration for every build type of the projects in a folder, listed in the
+   * Run and Debug view and offered when creating launch.json.
+   */
+  provideDebugConfigurations(
+    debuggerType: MiracleDebugger,
+    folder: vscode.WorkspaceFolder | undefined
+  ): vscode.DebugConfiguration[] {
+    const projects = this.projectManager.projects.filter((project) => !folder || project.folder === folder);
+    const platform = getHostPlatform();
+    if (!platform) {
+      return [];
+    }
+
+    return projects.flatMap((project) =>
+      ['debug', 'release'].map((buildType) =>
+        this.createConfiguration(debuggerType, project, { platform, buildType, linkType: 'dynamic' })
+      )
+    );
+  }
+
+  /**
+   * Fills in the shared library folders once variables are substituted, so that libraries
+   * built since the configuration was written are found.
+   */
+  resolveDebugConfiguration(
+    _folder: vscode.WorkspaceFolder | undefined,
+    config: vscode.DebugConfiguration
+  ): vscode.DebugConfiguration {
+    const program: string | undefined = config.type === 'gdb' ? config.target : config.program;
+    if (!program || !config.miracleLibraries) {
+      return config;
+    }
+
+    const libraryDirs = findLibraryDirectories(path.dirname(program));
+    switch (config.type) {
+      case 'cppdbg':
+        config.additionalSOLibSearchPath = libraryDirs.join(';');
+        break;
+      case 'lldb':
+        config.initCommands = [
+          ...(config.initCommands ?? []),
+          ...libraryDirs.map((dir) => `settings append target.exec-search-paths "${dir}"`),
+        ];
+        break;
+      case 'gdb':
+        config.autorun = [...(config.autorun ?? []), `set solib-search-path ${libraryDirs.join(path.delimiter)}`];
+        break;
+    }
+    return config;
+  }
+
+  /**
+   * Creates a launch configuration for the executable of a project.
+   * @param debuggerType The debug adapter the configuration is for.
+   * @param project The project the executable belongs to.
+   * @param target The platform, build type and link type the executable is built with.
+   */
+  createConfiguration(
+    debuggerType: MiracleDebugger,
+    project: MiracleProject,
+    target: MiracleDebugTarget
+  ): vscode.DebugConfiguration {
+    const miracleRoot = getFrameworkPath(project.root);
+    const program = path.join(miracleRoot, getExecutablePath(target.platform, target.buildType));
+    const build: MiracleTaskDefinition = {
+      type: MIRACLE_TASK_TYPE,
+      command: 'build-exe',
+      platform: target.platform,
+      linkType: target.linkType,
+      buildType: target.buildType,
+    };
+    const name = this.projectManager.projects.length > 1 ? ` [${project.name}]` : '';
+
+    const config: vscode.DebugConfiguration = {
+      type: debuggerType,
+      request: 'launch',
+      name: `Miracle: debug executable (${target.platform}, ${target.buildType})${name}`,
+      cwd: miracleRoot,
+      preLaunchTask: `${MIRACLE_TASK_TYPE}: ${this.taskProvider.getProjectTaskName(build, project)}`,
+      miracleLibraries: true,
+    };
+    const libraryPath = path.dirname(program);
+
+    switch (debuggerType) {
+      case 'cppdbg':
+        return {
+          ...config,
+          program,
+          MIMode: process.platform === 'darwin' ? 'lldb' : 'gdb',
+          environment: target.platform === 'linux' ? [{ name: 'LD_LIBRARY_PATH', value: libraryPath }] : [],
+          setupCommands: [
+            { description: 'Enable pretty-printing for gdb', text: '-enable-pretty-printing', ignoreFailures: true },
+          ],
+        };
+      case 'lldb':
+        return { ...config, program, env: target.platform === 'linux' ? { LD_LIBRARY_PATH: libraryPath } : {} };
+      case 'gdb':
+        return { ...config, target: program, env: target.platform === 'linux' ? { LD_LIBRARY_PATH: libraryPath } : {} };
+    }
+  }
+
+  /**
+   * Builds and debugs the executable of a project with the debugger chosen in the
+   * miracle.debug.debugger setting.
+   */
+  async startDebugging(project: MiracleProject, target: MiracleDebugTarget): Promise<boolean> {
+    if (target.platform !== getHostPlatform()) {
+      vscode.window.showErrorMessage(`Cannot debug a ${target.platform} executable on this machine.`);
+      return false;
+    }
+
+    const debuggerType = vscode.workspace.getConfiguration('miracle.debug').get<MiracleDebugger>('debugger', 'cppdbg');
+    if (!MIRACLE_DEBUGGERS.includes(debuggerType)) {
+      vscode.window.showErrorMessage(`Unknown debugger '${debuggerType}'.`);
+      return false;
+    }
+
+    return vscode.debug.startDebugging(project.folder, this.createConfiguration(debuggerType, project, target));
+  }
+
+  dispose() {
+    this.disposables.forEach((d) => d.dispose());
+  }
+}
+
+/**
+ * Returns the folder of the executable and every folder below it that holds shared libraries.
+ * @param dir The folder containing the executable.
+ */
+function findLibraryDirectories(dir: string, depth = 3): string[] {
+  const dirs = new Set<string>([dir]);
+  const visit = (current: string, remaining: number) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(current, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      if (entry.isFile() && SHARED_LIBRARY.test(entry.name)) {
+        dirs.add(current);
+      } else if (entry.isDirectory() && remaining > 0) {
+        visit(path.join(current, entry.name), remaining - 1);
+      }
+    }
+  };
+  visit(dir, depth);
+  return [...dirs];
+}
@@ -0,0 +1,200 @@
+/**
+ * The name of the node representing the [application] section.
+ */
+export const APPLICATION_NODE = 'application';
+
+/**
+ * DependencyGraph maps each node (the application or a library name) to the names it
+ * depends on, in the order they are listed in config.ini.
+ */
+export type DependencyGraph = Map<string, string[]>;
+
+/**
+ * A dependency that names a library which is not declared in config.ini.
+ */
+export interface MissingDependency {
+  node: string;
+  dependency: string;
+}
+
+/**
+ * Maps a config.ini section name to its graph node.
+ * @param section A section path such as 'application' or 'library.test'.
+ * @returns The node name, or undefined if the section cannot have dependencies.
+ */
+export function sectionToNode(section: string): string | undefined {
+  if (section === APPLICATION_NODE) {
+    return APPLICATION_NODE;
+  }
+  if (section.startsWith('library.') && section.length > 'library.'.length) {
+    return section.substring('library.'.length);
+  }
+  return undefined;
+}
+
+/**
+ * Maps a graph node back to its config.ini section name.
+ */
+export function nodeToSection(node: string): string {
+  return node === APPLICATION_NODE ? APPLICATION_NODE : `library.${node}`;
+}
+
+/**
+ * Lists the dependencies that do not name a node of the graph.
+ */
+export function findMissingDependencies(graph: DependencyGraph): MissingDependency[] {
+  const missing: MissingDependency[] = [];
+  for (const [node, dependencies] of graph) {
+    for (const dependency of dependencies) {
+      if (!graph.has(dependency) || dependency === APPLICATION_NODE) {
+        missing.push({ node, dependency });
+      }
+    }
+  }
+  return missing;
+}
+
+/**
+ * Finds a path of dependencies leading from one node to another.
+ * @returns The nodes along the path including both ends, or undefined if there is none.
+ */
+export function findPath(graph: DependencyGraph, from: string, to: string): string[] | undefined {
+  const visited = new Set<string>();
+
+  const visit = (node: string): string[] | undefined => {
+    if (node === to) {
+      return [node];
+    }
+    if (visited.has(node)) {
+      return undefined;
+    }
+    visited.add(node);
+
+    for (const dependency of graph.get(node) ?? []) {
+      const rest = visit(dependency);
+      if (rest) {
+        return [node, ...rest];
+      }
+    }
+    return undefined;
+  };
+
+  return visit(from);
+}
+
+/**
+ * Checks whether adding a dependency would close a cycle.
+ * @param graph The current dependency graph.
+ * @param node The node the dependency is added to.
+ * @param dependency The node being depended on.
+ * @returns The resulting cycle starting and ending at node, or undefined if the edit is safe.
+ */
+export function findCycleFromEdge(graph: DependencyGraph, node: string, dependency: string): string[] | undefined {
+  const path = findPath(graph, dependency, node);
+  return path ? [node, ...path] : undefined;
+}
+
+/**
+ * Finds every distinct cycle in the graph.
+ * @returns Each cycle as a list of nodes whose first and last entries are the same.
+ */
+export function findCycles(graph: DependencyGraph): string[][] {
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (node: string) => {
+    state.set(node, 'visiting');
+    stack.push(node);
+
+    for (const dependency of graph.get(node) ?? []) {
+      if (!graph.has(dependency)) {
+        continue;
+      }
+      if (state.get(dependency) === 'visiting') {
+        const cycle = [...stack.slice(stack.indexOf(dependency)), dependency];
+        const key = [...cycle.slice(1)].sort().join(',');
+        if (!seen.has(key)) {
+          seen.add(key);
+          cycles.push(cycle);
+        }
+      } else if (!state.has(dependency)) {
+        visit(dependency);
+      }
+    }
+
+    stack.pop();
+    state.set(node, 'done');
+  };
+
+  for (const node of graph.keys()) {
+    if (!state.has(node)) {
+      visit(node);
+    }
+  }
+  return cycles;
+}
+
+/**
+ * Computes the order libraries have to be built in, dependencies before their dependents.
+ * Missing dependencies are ignored.
+ * @returns The build order, or undefined if the graph contains a cycle.
+ */
+export function topologicalOrder(graph: DependencyGraph): string[] | undefined {
+  const order: string[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  const visit = (node: string): boolean => {
+    const current = state.get(node);
+    if (current === 'done') {
+      return true;
+    }
+    if (current === 'visiting') {
+      return false;
+    }
+
+    state.set(node, 'visiting');
+    for (const dependency of graph.get(node) ?? []) {
+      if (graph.has(dependency) && !visit(dependency)) {
+        return false;
+      }
+    }
+    state.set(node, 'done');
+    order.push(node);
+    return true;
+  };
+
+  for (const node of graph.keys()) {
+    if (!visit(node)) {
+      return undefined;
+    }
+  }
+  return order;
+}
+
+/**
+ * Finds every node that depends on one of the given nodes, directly or through others.
+ * @returns The dependents, not including the given nodes unless they depend on each other.
+ */
+export function findDependents(graph: DependencyGraph, nodes: string[]): Set<string> {
+  const dependents = new Set<string>();
+  const queue = [...nodes];
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    for (const [dependent, dependencies] of graph) {
+      if (dependencies.includes(node) && !dependents.has(dependent)) {
+        dependents.add(dependent);
+        queue.push(dependent);
+      }
+    }
+  }
+  return dependents;
+}
+
+/**
+ * Formats a cycle for display, e.g. "a → b → a".
+ */
+export function formatCycle(cycle: string[]): string {
+  return cycle.join(' → ');
+}
@@ -0,0 +1,245 @@
+import * as vscode from 'vscode';
+import { IniTreeDataProvider } from './treeView';
+import {
+  DependencyGraph,
+  findCycles,
+  findMissingDependencies,
+  formatCycle,
+  MissingDependency,
+  topologicalOrder,
+} from './dependencyGraph';
+
+const NODE_WIDTH = 140;
+const NODE_HEIGHT = 28;
+const COLUMN_GAP = 60;
+const ROW_GAP = 16;
+const PADDING = 20;
+
+/**
+ * DependencyGraphPanel shows which libraries depend on which as a webview, together with
+ * missing dependencies, dependency cycles and the resulting build order. The panel follows
+ * changes to config.ini while it is open.
+ */
+export class DependencyGraphPanel implements vscode.Disposable {
+  public static readonly viewType = 'miracleDependencyGraph';
+  private static current: DependencyGraphPanel | undefined;
+
+  private disposables: vscode.Disposable[] = [];
+  private configListener: vscode.Disposable | undefined;
+  private iniTreeDataProvider!: IniTreeDataProvider;
+
+  /**
+   * Shows the dependency graph of a project, reusing the open panel if there is one.
+   * @param iniTreeDataProvider The provider holding the project's parsed config.ini.
+   * @param projectName The name of the project, shown in the panel title.
+   */
+  static show(iniTreeDataProvider: IniTreeDataProvider, projectName: string) {
+    if (DependencyGraphPanel.current) {
+      DependencyGraphPanel.current.panel.reveal();
+      DependencyGraphPanel.current.setProject(iniTreeDataProvider, projectName);
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(DependencyGraphPanel.viewType, '', vscode.ViewColumn.Active, {});
+    DependencyGraphPanel.current = new DependencyGraphPanel(panel, iniTreeDataProvider, projectName);
+  }
+
+  private constructor(
+    private readonly panel: vscode.WebviewPanel,
+    iniTreeDataProvider: IniTreeDataProvider,
+    projectName: string
+  ) {
+    this.disposables.push(panel.onDidDispose(() => this.dispose()));
+    this.setProject(iniTreeDataProvider, projectName);
+  }
+
+  /**
+   * Shows the graph of another project and follows its config.ini from now on.
+   */
+  private setProject(iniTreeDataProvider: IniTreeDataProvider, projectName: string) {
+    if (iniTreeDataProvider !== this.iniTreeDataProvider) {
+      this.configListener?.dispose();
+      this.iniTreeDataProvider = iniTreeDataProvider;
+      this.configListener = iniTreeDataProvider.onDidChangeTreeData(() => this.update());
+    }
+    this.panel.title = `Miracle Dependency Graph: ${projectName}`;
+    this.update();
+  }
+
+  /**
+   * Re-renders the panel from the current contents of config.ini.
+   */
+  update() {
+    const graph = this.iniTreeDataProvider.getDependencyGraph();
+    this.panel.webview.html = this.getHtmlForWebview(graph);
+  }
+
+  dispose() {
+    DependencyGraphPanel.current = undefined;
+    this.configListener?.dispose();
+    this.disposables.forEach((d) => d.dispose());
+    this.panel.dispose();
+  }
+
+  private getHtmlForWebview(graph: DependencyGraph): string {
+    const missing = findMissingDependencies(graph);
+    const cycles = findCycles(graph);
+    const order = topologicalOrder(graph);
+
+    const problems = [
+      ...missing.map(
+        ({ node, dependency }) => `<li>'${escapeHtml(node)}' depends on '${escapeHtml(dependency)}', which is not a library.</li>`
+      ),
+      ...cycles.map((cycle) => `<li>Dependency cycle: ${escapeHtml(formatCycle(cycle))}</li>`),
+    ];
+
+    const buildOrder = order
+      ? `<ol>${order.map((node) => `<li>${escapeHtml(node)}</li>`).join('')}</ol>`
+      : '<p class="error">The build order cannot be computed until the dependency cycles are removed.</p>';
+
+    return `
+      <!DOCTYPE html>
+      <html lang="en">
+      <head>
+        <meta charset="UTF-8">
+        <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';">
+        <style>
+          body {
+            font-family: var(--vscode-font-family);
+            color: var(--vscode-foreground);
+            padding: 10px;
+          }
+          .error {
+            color: var(--vscode-errorForeground);
+          }
+          svg text {
+            fill: var(--vscode-foreground);
+            font-size: 12px;
+          }
+          .node rect {
+            fill: var(--vscode-editor-background);
+            stroke: var(--vscode-foreground);
+          }
+          .node.missing rect {
+            stroke: var(--vscode-errorForeground);
+            stroke-dasharray: 4 2;
+          }
+          .edge {
+            stroke: var(--vscode-foreground);
+            opacity: 0.6;
+          }
+          .edge.cycle, .edge.missing {
+            stroke: var(--vscode-errorForeground);
+            opacity: 1;
+          }
+        </style>
+      </head>
+      <body>
+        <h2>Dependencies</h2>
+        ${graph.size === 0 ? '<p>config.ini declares no application or libraries.</p>' : renderGraph(graph, missing, cycles)}
+        <h2>Problems</h2>
+        ${problems.length > 0 ? `<ul class="error">${problems.join('')}</ul>` : '<p>No problems found.</p>'}
+        <h2>Build Order</h2>
+        ${buildOrder}
+      </body>
+      </html>
+    `;
+  }
+}
+
+/**
+ * Renders the graph as an SVG with one column per dependency depth, so that every library
+ * is drawn to the left of the libraries depending on it.
+ */
+function renderGraph(graph: DependencyGraph, missing: MissingDependency[], cycles: string[][]): string {
+  const depths = new Map<string, number>();
+  const visiting = new Set<string>();
+
+  const depthOf = (node: string): number => {
+    const known = depths.get(node);
+    if (known !== undefined) {
+      return known;
+    }
+    if (visiting.has(node) || !graph.has(node)) {
+      // Missing libraries and back edges of cycles do not add depth
+      return 0;
+    }
+
+    visiting.add(node);
+    const dependencies = graph.get(node) ?? [];
+    const depth = dependencies.length === 0 ? 0 : Math.max(...dependencies.map((dep) => depthOf(dep) + 1));
+    visiting.delete(node);
+    depths.set(node, depth);
+    return depth;
+  };
+
+  const missingNodes = new Set(missing.map(({ dependency }) => dependency).filter((dep) => !graph.has(dep)));
+  const columns: string[][] = [];
+  const place = (node: string, depth: number) => {
+    (columns[depth] ??= []).push(node);
+  };
+  missingNodes.forEach((node) => place(node, 0));
+  for (const node of graph.keys()) {
+    place(node, depthOf(node));
+  }
+
+  const positions = new Map<string, { x: number; y: number }>();
+  columns.forEach((nodes, column) => {
+    nodes.forEach((node, row) => {
+      positions.set(node, {
+        x: PADDING + column * (NODE_WIDTH + COLUMN_GAP),
+        y: PADDING + row * (NODE_HEIGHT + ROW_GAP),
+      });
+    });
+  });
+
+  const cycleEdges = new Set<string>();
+  for (const cycle of cycles) {
+    for (let i = 0; i < cycle.length - 1; i++) {
+      cycleEdges.add(`${cycle[i]}\u0000${cycle[i + 1]}`);
+    }
+  }
+
+  const edges: string[] = [];
+  for (const [node, dependencies] of graph) {
+    const from = positions.get(node)!;
+    for (const dependency of dependencies) {
+      const to = positions.get(dependency);
+      if (!to) {
+        continue;
+      }
+      const kind = missingNodes.has(dependency) ? 'missing' : cycleEdges.has(`${node}\u0000${dependency}`) ? 'cycle' : '';
+      edges.push(
+        `<line class="edge ${kind}" marker-end="url(#arrow)" x1="${from.x}" y1="${from.y + NODE_HEIGHT / 2}" ` +
+          `x2="${to.x + NODE_WIDTH}" y2="${to.y + NODE_HEIGHT / 2}" />`
+      );
+    }
+  }
+
+  const nodes = [...positions].map(
+    ([node, { x, y }]) =>
+      `<g class="node ${missingNodes.has(node) ? 'missing' : ''}">` +
+      `<rect x="${x}" y="${y}" width="${NODE_WIDTH}" height="${NODE_HEIGHT}" rx="4" />` +
+      `<text x="${x + 8}" y="${y + 18}">${escapeHtml(node)}</text>` +
+      '</g>'
+  );
+
+  const width = PADDING * 2 + columns.length * NODE_WIDTH + (columns.length - 1) * COLUMN_GAP;
+  const height = PADDING * 2 + Math.max(...columns.map((c) => c.length)) * (NODE_HEIGHT + ROW_GAP) - ROW_GAP;
+
+  return `
+    <svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
+      <defs>
+        <marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+          <path d="M 0 0 L 10 5 L 0 10 z" fill="currentColor" />
+        </marker>
+      </defs>
+      ${edges.join('\n')}
+      ${nodes.join('\n')}
+    </svg>
+  `;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
@@ -1,46 +1,203 @@
 import * as vscode from 'vscode';
-import { IniTreeDataProvider, IniTreeItem } from './treeView';
+import { IniTreeItem } from './treeView';
 import { BuildPanelProvider } from './buildPanel';
-import * as path from 'path';
-import * as fs from 'fs';
+import { MIRACLE_TASK_TYPE, MiracleTaskDefinition, MiracleTaskProvider } from './taskProvider';
+import { BuildStatusBar } from './buildStatus';
+import { HotReloadWatcher } from './hotReload';
+import { DependencyGraphPanel } from './dependencyGraphPanel';
+import { IniLanguageFeatures } from './iniLanguage';
+import { MiracleDebugConfigurationProvider } from './debugProvider';
+import { BuildProfile, BuildProfileArgument, BuildProfileStore } from './buildProfiles';
+import { pickPlatform } from './platform';
+import { BuildLog } from './buildLog';
+import { BuildHistory, BuildHistoryItem } from './buildHistory';
+import { setupProject } from './projectSetup';
+import { FrameworkVersionStatus } from './frameworkVersion';
+import { MiracleProjectManager, ProjectTreeDataProvider } from './projects';
+import { SourceTreeItem, findMainSource } from './librarySources';
+import { ChangedBuild } from './changedBuild';
+import { CompileCommandsGenerator } from './compileCommands';
+import { stopAllProcesses } from './processRunner';
 
-export function activate(context: vscode.ExtensionContext) {
-  const workspaceFolders = vscode.workspace.workspaceFolders;
-  if (!workspaceFolders) {
-    vscode.window.showErrorMessage('No workspace is open.');
-    return;
-  }
+export async function activate(context: vscode.ExtensionContext) {
+  // Record every script invocation in the Miracle Framework output channel
+  const buildLog = new BuildLog();
+  context.subscriptions.push(
+    buildLog,
+    vscode.commands.registerCommand('miracle.showBuildOutput', () => buildLog.show()),
+    vscode.commands.registerCommand('miracle.showLastBuildLog', () => buildLog.showLastBuildLog())
+  );
 
-  const workspaceRoot = workspaceFolders[0].uri.fsPath;
+  // Discover the Miracle projects in every workspace folder before any command can use them
+  const projectManager = new MiracleProjectManager(buildLog);
+  context.subscriptions.push(projectManager);
+  await projectManager.discover();
 
-  // Initialize the INI Tree Data Provider
-  const iniTreeDataProvider = new IniTreeDataProvider(workspaceRoot);
-  vscode.window.registerTreeDataProvider('iniTreeView', iniTreeDataProvider);
+  // Initialize the Project Configuration tree, selecting a node makes its project active
+  const projectTreeDataProvider = new ProjectTreeDataProvider(projectManager);
+  const iniTreeView = vscode.window.createTreeView('iniTreeView', { treeDataProvider: projectTreeDataProvider });
+  context.subscriptions.push(
+    projectTreeDataProvider,
+    iniTreeView,
+    iniTreeView.onDidChangeSelection((event) => {
+      const project = event.selection.length > 0 ? projectManager.resolveProject(event.selection[0]) : undefined;
+      if (project) {
+        projectManager.setActiveProject(project);
+      }
+    })
+  );
+
+  // Check config.ini and provide completion and navigation while it is edited as text
+  context.subscriptions.push(new IniLanguageFeatures(projectManager));
+
+  // Register the Miracle task provider, which runs every build through a tracked process
+  const taskProvider = new MiracleTaskProvider(projectManager, buildLog);
+
+  // Keep the named build profiles of the workspace and the selected one
+  const profileStore = new BuildProfileStore(context, projectManager);
+  context.subscriptions.push(
+    profileStore,
+    vscode.commands.registerCommand('miracle.selectBuildProfile', () => profileStore.selectProfile()),
+    vscode.commands.registerCommand('miracle.saveBuildProfile', () =>
+      profileStore.saveProfile(BuildPanelProvider.getState(context).build)
+    )
+  );
+
+  // Hot compile libraries when their sources are saved
+  const hotReloadWatcher = new HotReloadWatcher(projectManager, taskProvider, buildLog);
+  context.subscriptions.push(
+    hotReloadWatcher,
+    vscode.commands.registerCommand('miracle.toggleHotReload', () => hotReloadWatcher.toggle())
+  );
+
+  // Show the build selection and the outcome of every build in the status bar
+  const getBuildSelection = (): MiracleTaskDefinition => {
+    const build = profileStore.activeProfile ?? BuildPanelProvider.getState(context).build;
+    return {
+      type: MIRACLE_TASK_TYPE,
+      command: 'build-exe',
+      platform: build.platform,
+      linkType: build.linkType,
+      buildType: build.buildType,
+    };
+  };
+  const buildStatusBar = new BuildStatusBar(getBuildSelection());
+
+  context.subscriptions.push(
+    taskProvider,
+    buildStatusBar,
+    vscode.tasks.registerTaskProvider(MIRACLE_TASK_TYPE, taskProvider),
+    taskProvider.onDidStartTask((event) => buildStatusBar.taskStarted(event)),
+    taskProvider.onDidEndTask((event) => buildStatusBar.taskEnded(event, hotReloadWatcher.isHotReloadBuild(event)))
+  );
+
+  // Show the Miracle views, menus and status bar items only in workspaces with a project
+  const updateProjectContext = () => {
+    const hasProject = projectManager.projects.length > 0;
+    vscode.commands.executeCommand('setContext', 'miracle.hasProject', hasProject);
+    buildStatusBar.setVisible(hasProject);
+  };
+  updateProjectContext();
+  context.subscriptions.push(projectManager.onDidChangeProjects(updateProjectContext));
+
+  // Record builds and runs in the Build History view
+  const buildHistory = new BuildHistory(context, projectManager, taskProvider, buildLog);
+  context.subscriptions.push(
+    buildHistory,
+    vscode.window.registerTreeDataProvider('buildHistory', buildHistory),
+    vscode.commands.registerCommand('miracle.rerunBuild', (item: BuildHistoryItem) => buildHistory.rerun(item)),
+    vscode.commands.registerCommand('miracle.openBuildLog', (item: BuildHistoryItem) => buildHistory.openLog(item)),
+    vscode.commands.registerCommand('miracle.copyBuildCommandLine', (item: BuildHistoryItem) =>
+      buildHistory.copyCommandLine(item)
+    ),
+    vscode.commands.registerCommand('miracle.clearBuildHistory', () => buildHistory.clear())
+  );
+
+  // Show the framework version of the active project and update it
+  const frameworkVersion = new FrameworkVersionStatus(projectManager, buildLog);
+  context.subscriptions.push(
+    frameworkVersion,
+    vscode.commands.registerCommand('miracle.frameworkActions', () => frameworkVersion.showActions()),
+    vscode.commands.registerCommand('miracle.fetchFramework', () => frameworkVersion.fetch()),
+    vscode.commands.registerCommand('miracle.updateFramework', () => frameworkVersion.updateFramework()),
+    vscode.commands.registerCommand('miracle.showFrameworkChangelog', () => frameworkVersion.showChangelog())
+  );
+
+  // Generate debug configurations for the built executable
+  const debugProvider = new MiracleDebugConfigurationProvider(projectManager, taskProvider);
+  context.subscriptions.push(debugProvider);
+
+  // Generate compile_commands.json from config.ini for IntelliSense
+  const compileCommands = new CompileCommandsGenerator(projectManager);
+  context.subscriptions.push(
+    compileCommands,
+    vscode.commands.registerCommand('miracle.generateCompileCommands', () => compileCommands.regenerate())
+  );
+
+  // Hot compile only the targets whose sources changed since they were last built
+  const changedBuild = new ChangedBuild(projectManager, taskProvider);
+
+  // Keep the up-to-date badges of the libraries current as sources are saved and built
+  context.subscriptions.push(
+    taskProvider.onDidEndTask((event) => projectManager.getProject(event.projectRoot)?.config.refreshBuildStates()),
+    vscode.workspace.onDidSaveTextDocument((document) =>
+      projectManager.getProject(document.uri.fsPath)?.config.refreshBuildStates()
+    ),
+    vscode.commands.registerCommand('miracle.revealInExplorer', (item: IniTreeItem | SourceTreeItem) => {
+      const fsPath =
+        item instanceof SourceTreeItem ? item.fsPath : projectManager.resolveProject(item)?.config.getBuildTarget(item)?.dir;
+      if (fsPath) {
+        vscode.commands.executeCommand('revealInExplorer', vscode.Uri.file(fsPath));
+      }
+    }),
+    vscode.commands.registerCommand('miracle.openMainSource', async (item: IniTreeItem) => {
+      const target = projectManager.resolveProject(item)?.config.getBuildTarget(item);
+      const source = target ? await findMainSource(target) : undefined;
+      if (!source) {
+        vscode.window.showInformationMessage(`No source files found for '${item.label}'.`);
+        return;
+      }
+      vscode.window.showTextDocument(vscode.Uri.file(source));
+    })
+  );
 
   // Register Commands
   context.subscriptions.push(
-    vscode.commands.registerCommand('miracle.refreshIniTree', () => iniTreeDataProvider.refresh()),
-    vscode.commands.registerCommand('miracle.editIniValue', (item: any) => {
-      vscode.window
-        .showInputBox({ prompt: `Edit value for ${item.label}`, value: String(item.data) })
-        .then((value) => {
-          if (value !== undefined) {
-            iniTreeDataProvider.updateIniValue(item, value);
-          }
-        });
+    vscode.commands.registerCommand('miracle.refreshIniTree', () => {
+      projectManager.projects.forEach((project) => project.config.refresh());
+    }),
+    vscode.commands.registerCommand('miracle.selectProject', () => projectManager.selectProject()),
+    vscode.commands.registerCommand('miracle.editIniValue', (item: IniTreeItem) => {
+      projectManager.resolveProject(item)?.config.editIniValue(item);
     }),
-    vscode.commands.registerCommand('miracle.addDependency', (item: any) => {
+    vscode.commands.registerCommand('miracle.addDependency', (item: IniTreeItem) => {
       vscode.window.showInputBox({ prompt: 'Enter new dependency' }).then((dep) => {
         if (dep) {
-          iniTreeDataProvider.addDependency(item, dep);
+          projectManager.resolveProject(item)?.config.addDependency(item, dep);
         }
       });
     }),
-    vscode.commands.registerCommand('miracle.addLibrary', () => {
-      iniTreeDataProvider.addLibrary();
+    vscode.commands.registerCommand('miracle.addLibrary', (item?: vscode.TreeItem) => {
+      projectManager.resolveProject(item)?.config.addLibrary();
+    }),
+    vscode.commands.registerCommand('miracle.removeLibrary', (item: IniTreeItem) => {
+      projectManager.resolveProject(item)?.config.removeLibrary(item);
+    }),
+    vscode.commands.registerCommand('miracle.renameLibrary', (item: IniTreeItem) => {
+      projectManager.resolveProject(item)?.config.renameLibrary(item);
     }),
-    vscode.commands.registerCommand('miracle.compileHot', async (item: any) => {
-      if (item) {
+    vscode.commands.registerCommand('miracle.changeLibraryType', (item: IniTreeItem) => {
+      projectManager.resolveProject(item)?.config.changeLibraryType(item);
+    }),
+    vscode.commands.registerCommand('miracle.showDependencyGraph', (item?: vscode.TreeItem) => {
+      const project = projectManager.resolveProject(item);
+      if (project) {
+        DependencyGraphPanel.show(project.config, project.name);
+      }
+    }),
+    vscode.commands.registerCommand('miracle.compileHot', async (item: IniTreeItem) => {
+      const project = projectManager.resolveProject(item);
+      if (item && project) {
         let target: string;
         if (item.label === 'application') {
           target = 'application';
@@ -48,112 +205,132 @@ export function activate(context: vscode.ExtensionContext) {
           target = item.label;
         }
 
-        // Prompt the user to select the platform
-        const platform = await vscode.window.showQuickPick(['windows', 'linux'], {
-          placeHolder: 'Select the target platform for hot compile',
-        });
-
+        // Prompt the user to select the platform when more than one can be built for
+        const platform = await pickPlatform('Select the target platform for hot compile');
         if (!platform) {
-          vscode.window.showErrorMessage('Hot compile cancelled: No platform selected.');
           return;
         }
 
         // Run the build script with target, build-type 'hot', and the selected platform
-        runBuildScript('build', ['--target', target, '--platform', platform, '--build-type', 'hot'], workspaceRoot);
+        taskProvider.runTask({ type: MIRACLE_TASK_TYPE, command: 'build', target, platform, buildType: 'hot' }, project);
+      }
+    }),
+    // Register new build and run commands. They take explicit selections from the Build Panel,
+    // or a { profile } argument from keybindings, and otherwise use the selected profile.
+    vscode.commands.registerCommand(
+      'miracle.buildExecutable',
+      (linkType?: string | BuildProfileArgument, platform?: string, buildType?: string) => {
+        const profile: Partial<BuildProfile> | undefined =
+          typeof linkType === 'string'
+            ? { linkType, platform, buildType }
+            : profileStore.resolve(linkType, BuildPanelProvider.getState(context).build);
+        if (profile) {
+          taskProvider.runTask({
+            type: MIRACLE_TASK_TYPE,
+            command: 'build-exe',
+            platform: profile.platform,
+            linkType: profile.linkType,
+            buildType: profile.buildType,
+            args: profile.args,
+          });
+        }
+      }
+    ),
+    vscode.commands.registerCommand('miracle.fullHotCompile', (platform?: string | BuildProfileArgument) => {
+      const state = BuildPanelProvider.getState(context);
+      const profile: Partial<BuildProfile> | undefined =
+        typeof platform === 'string'
+          ? { platform }
+          : profileStore.resolve(platform, { ...state.build, platform: state.hotcompile.platform });
+      if (profile) {
+        // Run the build script for the specified platform
+        taskProvider.runTask({
+          type: MIRACLE_TASK_TYPE,
+          command: 'build',
+          target: 'all',
+          platform: profile.platform,
+          buildType: 'hot',
+          args: profile.args,
+        });
       }
     }),
-    // Register new build and run commands
-    vscode.commands.registerCommand('miracle.buildExecutable', (linkType: string, platform: string, buildType: string) => {
-      runBuildScript(
-        'build-exe',
-        ['--platform', platform, '--link', linkType, '--build-type', buildType],
-        workspaceRoot
-      );
+    vscode.commands.registerCommand('miracle.buildChanged', (platform?: string | BuildProfileArgument) => {
+      const state = BuildPanelProvider.getState(context);
+      const profile: Partial<BuildProfile> | undefined =
+        typeof platform === 'string'
+          ? { platform }
+          : profileStore.resolve(platform, { ...state.build, platform: state.hotcompile.platform });
+      if (profile) {
+        // Hot compile the targets with changed sources and their dependents
+        changedBuild.run(profile.platform ?? state.hotcompile.platform, profile.args);
+      }
     }),
-    vscode.commands.registerCommand('miracle.fullHotCompile', (platform: string) => {
-      // Run the build script for the specified platform
-      runBuildScript('build', ['--target', 'all', '--platform', platform, '--build-type', 'hot'], workspaceRoot);
+    vscode.commands.registerCommand(
+      'miracle.runExecutable',
+      (buildType?: string | BuildProfileArgument, platform?: string) => {
+        const state = BuildPanelProvider.getState(context);
+        const profile: Partial<BuildProfile> | undefined =
+          typeof buildType === 'string'
+            ? { buildType, platform }
+            : profileStore.resolve(buildType, { ...state.build, ...state.run });
+        if (profile) {
+          taskProvider.runTask({
+            type: MIRACLE_TASK_TYPE,
+            command: 'run',
+            platform: profile.platform,
+            buildType: profile.buildType,
+            args: profile.args,
+          });
+        }
+      }
+    ),
+    vscode.commands.registerCommand(
+      'miracle.debugExecutable',
+      (buildType?: string, platform?: string, linkType?: string) => {
+        const project = projectManager.resolveProject();
+        if (!project) {
+          return;
+        }
+        // Without arguments, debug the selection of the Build Panel
+        const state = BuildPanelProvider.getState(context);
+        debugProvider.startDebugging(project, {
+          platform: platform ?? state.run.platform,
+          buildType: buildType ?? state.run.buildType,
+          linkType: linkType ?? state.build.linkType,
+        });
+      }
+    ),
+    // Set up a Miracle project in a workspace folder, adding the framework and running setup.py
+    vscode.commands.registerCommand('miracle.setupProject', async () => {
+      if (await setupProject(buildLog)) {
+        await projectManager.discover();
+        frameworkVersion.update();
+      }
     }),
-    vscode.commands.registerCommand('miracle.runExecutable', (buildType: string, platform: string) => {
-      runExecutable(buildType, platform, workspaceRoot);
+    // Stop running builds and executables, and builds waiting for them
+    vscode.commands.registerCommand('miracle.stop', () => {
+      if (taskProvider.stopTasks() === 0) {
+        vscode.window.showInformationMessage('Miracle: nothing is running.');
+      }
     }),
     // Register the cleanBuildDirectories command
     vscode.commands.registerCommand('miracle.cleanBuildDirectories', () => {
-      runBuildScript('clean', [], workspaceRoot);
+      taskProvider.runTask({ type: MIRACLE_TASK_TYPE, command: 'clean' });
     })
   );
 
   // Initialize the Build Panel
-  const buildPanelProvider = new BuildPanelProvider(context);
+  const buildPanelProvider = new BuildPanelProvider(context, profileStore);
   vscode.window.registerWebviewViewProvider(BuildPanelProvider.viewType, buildPanelProvider);
-}
 
-function runBuildScript(command: string, args: string[], workspaceRoot: string) {
-  const buildScriptPath = path.join(workspaceRoot, 'miracle', 'scripts', 'build.py');
-
-  if (!fs.existsSync(buildScriptPath)) {
-    vscode.window.showErrorMessage(`Build script not found at ${buildScriptPath}`);
-    return;
-  }
-
-  // Ensure the build script is executable (for Unix-like systems)
-  if (process.platform !== 'win32') {
-    try {
-      fs.chmodSync(buildScriptPath, 0o755);
-    } catch (err) {
-      vscode.window.showErrorMessage(`Failed to set executable permissions for build script: ${err}`);
-      return;
-    }
-  }
-
-  let terminal = vscode.window.terminals.find((t) => t.name === 'Miracle Framework');
-  if (!terminal) {
-    terminal = vscode.window.createTerminal('Miracle Framework');
-  }
-
-  const cmdArgs = [command, ...args].join(' ');
-
-  // Construct the command to execute build.py with arguments
-  const isWindows = process.platform === 'win32';
-  const pythonCommand = isWindows ? 'python' : 'python3';
-  const finalCommand = `${pythonCommand} scripts/build.py ${cmdArgs}`;
-
-  // Send the command to the terminal
-  terminal.sendText(`cd "${path.join(workspaceRoot, 'miracle')}" && ${finalCommand}`);
-  terminal.show();
-}
-
-function runExecutable(buildType: string, platform: string, workspaceRoot: string) {
-  const runScriptPath = path.join(workspaceRoot, 'miracle', 'scripts', 'run.py');
-
-  if (!fs.existsSync(runScriptPath)) {
-    vscode.window.showErrorMessage(`Run script not found at ${runScriptPath}`);
-    return;
-  }
-
-  // Determine the build directory (debug or release)
-  const dir = buildType === 'hot' || buildType === 'debug' ? 'debug' : 'release';
-
-  // Build the path to the executable relative to the 'miracle' folder
-  let execCommand = path.join('bin', platform, dir, 'executable');
-  if (platform === 'windows') {
-    execCommand += '.exe';
-  }
-
-  // Build the command to run run.py with execCommand as argument
-  const isWindows = process.platform === 'win32';
-  const pythonCommand = isWindows ? 'python' : 'python3';
-  const command = `${pythonCommand} scripts/run.py "${execCommand}"`;
-
-  // Find or create the 'Miracle Framework' terminal
-  let terminal = vscode.window.terminals.find(t => t.name === 'Miracle Framework');
-  if (!terminal) {
-    terminal = vscode.window.createTerminal('Miracle Framework');
-  }
-
-  // Send the command to the terminal
-  terminal.sendText(`cd "${path.join(workspaceRoot, 'miracle')}" && ${command}`);
-  terminal.show();
+  // Keep the selection in the status bar in step with the panel and the selected profile
+  context.subscriptions.push(
+    profileStore.onDidChange(() => buildStatusBar.setSelection(getBuildSelection())),
+    buildPanelProvider.onDidChangeState(() => buildStatusBar.setSelection(getBuildSelection()))
+  );
 }
 
-export function deactivate() {}
\ No newline at end of file
+export function deactivate() {
+  // Builds and executables run in their own process group, so they are not stopped with the extension host
+  return stopAllProcesses();
+}
\ No newline at end of file
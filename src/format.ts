@@ -0,0 +1,13 @@
+/**
+ * Formats a count with a noun, e.g. "1 error" or "3 errors".
+ */
+export function pluralize(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Formats a duration in milliseconds as seconds, e.g. "12.3s".
+ */
+export function formatDuration(duration: number): string {
+  return `${(duration / 1000).toFixed(1)}s`;
+}
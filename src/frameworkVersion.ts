@@ -0,0 +1,328 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BuildLog } from './buildLog';
+import { getFrameworkPath } from './interpreter';
+import { runProcess } from './processRunner';
+import { MiracleProject, MiracleProjectManager } from './projects';
+
+/**
+ * The version of a project's framework checkout and how it compares to its upstream.
+ */
+export interface FrameworkVersion {
+  /** The tag of the checked out commit, or its abbreviated hash. */
+  version: string;
+  commit: string;
+  /** The branch or remote ref the checkout is compared to, e.g. 'origin/main'. */
+  upstream?: string;
+  /** Commits of the checkout that are not upstream. */
+  ahead: number;
+  /** Commits upstream that are not checked out. */
+  behind: number;
+}
+
+interface VersionItem extends vscode.QuickPickItem {
+  ref: string;
+}
+
+/**
+ * The number of commits listed in the update confirmation before the rest are summarized.
+ */
+const LISTED_COMMITS = 10;
+
+/**
+ * FrameworkVersionStatus shows the framework version of the active project in the status bar
+ * and whether it differs from upstream. It fetches new versions, updates the checkout to a
+ * chosen tag or branch and shows the changelog in between, warning when config.ini uses keys
+ * the framework scripts of the new version do not mention.
+ */
+export class FrameworkVersionStatus implements vscode.Disposable {
+  private statusItem: vscode.StatusBarItem;
+  private disposables: vscode.Disposable[] = [];
+  /** Counts the updates started, so that only the result of the latest one is shown. */
+  private updateCount = 0;
+
+  constructor(
+    private projectManager: MiracleProjectManager,
+    private log: BuildLog
+  ) {
+    this.statusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 49);
+    this.statusItem.name = 'Miracle Framework Version';
+    this.statusItem.command = 'miracle.frameworkActions';
+    this.disposables.push(
+      this.statusItem,
+      projectManager.onDidChangeActiveProject(() => this.update()),
+      projectManager.onDidChangeProjects(() => this.update())
+    );
+    this.update();
+  }
+
+  /**
+   * Returns the version of a project's framework checkout.
+   * @returns The version, or undefined if the framework is not a git checkout.
+   */
+  async getVersion(project: MiracleProject): Promise<FrameworkVersion | undefined> {
+    const frameworkRoot = getFrameworkPath(project.root);
+    if (!fs.existsSync(path.join(frameworkRoot, '.git'))) {
+      return undefined;
+    }
+
+    const commit = await git(frameworkRoot, ['rev-parse', '--short', 'HEAD']);
+    if (!commit) {
+      return undefined;
+    }
+    const version = (await git(frameworkRoot, ['describe', '--tags', '--always'])) ?? commit;
+
+    // Submodules are usually detached, in which case they are compared to the remote's default branch
+    const upstream =
+      (await git(frameworkRoot, ['rev-parse', '--abbrev-ref', '--symbolic-full-name', '@{upstream}'])) ??
+      (await git(frameworkRoot, ['rev-parse', '--abbrev-ref', 'origin/HEAD']));
+    const counts = upstream && (await git(frameworkRoot, ['rev-list', '--left-right', '--count', `HEAD...${upstream}`]));
+    const [ahead, behind] = counts ? counts.split(/\s+/).map(Number) : [0, 0];
+
+    return { version, commit, upstream, ahead, behind };
+  }
+
+  /**
+   * Refreshes the status item for the active project. The results of earlier updates still
+   * running, e.g. for a project that is no longer active, are discarded.
+   */
+  async update() {
+    const updateCount = ++this.updateCount;
+    const project = this.projectManager.activeProject;
+    if (!project) {
+      this.statusItem.hide();
+      return;
+    }
+
+    const version = await this.getVersion(project);
+    if (updateCount !== this.updateCount) {
+      return;
+    }
+    if (!version) {
+      this.statusItem.text = '$(package) miracle';
+      this.statusItem.tooltip = `Miracle: the framework in ${getFrameworkPath(project.root)} is not a git checkout, its version is unknown.`;
+    } else {
+      const difference = [version.behind > 0 ? `↓${version.behind}` : '', version.ahead > 0 ? `↑${version.ahead}` : '']
+        .filter((count) => count !== '')
+        .join(' ');
+      this.statusItem.text = `$(package) miracle ${version.version}${difference ? ` ${difference}` : ''}`;
+      this.statusItem.tooltip = version.upstream
+        ? `Miracle: framework ${version.version} (${version.commit}), ` +
+          (version.ahead === 0 && version.behind === 0
+            ? `up to date with ${version.upstream}.`
+            : `${version.behind} behind and ${version.ahead} ahead of ${version.upstream}.`)
+        : `Miracle: framework ${version.version} (${version.commit}), no upstream configured.`;
+    }
+    this.statusItem.show();
+  }
+
+  /**
+   * Lets the user pick one of the framework commands.
+   */
+  async showActions() {
+    const picked = await vscode.window.showQuickPick(
+      [
+        { label: 'Fetch Framework Versions', command: 'miracle.fetchFramework' },
+        { label: 'Update Framework...', command: 'miracle.updateFramework' },
+        { label: 'Show Framework Changelog...', command: 'miracle.showFrameworkChangelog' },
+      ],
+      { placeHolder: this.statusItem.tooltip as string }
+    );
+    if (picked) {
+      vscode.commands.executeCommand(picked.command);
+    }
+  }
+
+  /**
+   * Fetches the branches and tags of the framework's remote.
+   */
+  async fetch(project = this.projectManager.resolveProject()): Promise<boolean> {
+    const frameworkRoot = project && this.getCheckout(project);
+    if (!frameworkRoot) {
+      return false;
+    }
+
+    const result = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: 'Fetching framework versions...', cancellable: true },
+      (_progress, token) =>
+        runProcess('git', ['fetch', '--tags', '--prune'], { cwd: frameworkRoot, token, log: this.log }).catch(
+          (error: Error) => ({ exitCode: 1, stderr: error.message, cancelled: false })
+        )
+    );
+    if (!result.cancelled && result.exitCode !== 0) {
+      vscode.window
+        .showErrorMessage(`Failed to fetch framework versions: ${result.stderr.trim()}`, 'Show Output')
+        .then((action) => action && this.log.show());
+    }
+    await this.update();
+    return result.exitCode === 0;
+  }
+
+  /**
+   * Shows the commits between the checked out framework version and a chosen one.
+   */
+  async showChangelog(project = this.projectManager.resolveProject()) {
+    const frameworkRoot = project && this.getCheckout(project);
+    const target = frameworkRoot && (await this.pickVersion(frameworkRoot, 'Select the version to compare with'));
+    if (!frameworkRoot || !target) {
+      return;
+    }
+
+    const changelog = await getChangelog(frameworkRoot, target);
+    const document = await vscode.workspace.openTextDocument({
+      content:
+        `Framework changes from ${(await git(frameworkRoot, ['describe', '--tags', '--always'])) ?? 'HEAD'} to ${target}\n\n` +
+        (changelog.added.length > 0 ? `Added commits:\n${changelog.added.join('\n')}\n\n` : '') +
+        (changelog.removed.length > 0 ? `Removed commits:\n${changelog.removed.join('\n')}\n` : '') +
+        (changelog.added.length === 0 && changelog.removed.length === 0 ? 'No changes.\n' : ''),
+    });
+    await vscode.window.showTextDocument(document, { preview: true });
+  }
+
+  /**
+   * Checks out a chosen framework version after showing the commits it adds or removes and
+   * the config.ini keys it may not know.
+   */
+  async updateFramework(project = this.projectManager.resolveProject()) {
+    const frameworkRoot = project && this.getCheckout(project);
+    const target = frameworkRoot && (await this.pickVersion(frameworkRoot, 'Select the framework version to update to'));
+    if (!project || !frameworkRoot || !target) {
+      return;
+    }
+
+    const changelog = await getChangelog(frameworkRoot, target);
+    const unknownKeys = await findUnknownKeys(frameworkRoot, target, project.config.getKeys());
+    const details = [
+      ...(changelog.added.length > 0 ? [`${changelog.added.length} new commits:`] : []),
+      ...changelog.added.slice(0, LISTED_COMMITS),
+      ...(changelog.added.length > LISTED_COMMITS ? [`...and ${changelog.added.length - LISTED_COMMITS} more.`] : []),
+      ...(changelog.removed.length > 0 ? [`${changelog.removed.length} commits are no longer included.`] : []),
+      ...(unknownKeys.length > 0
+        ? [
+            '',
+            `Warning: config.ini uses keys that the scripts of ${target} do not mention: ${unknownKeys.join(', ')}.`,
+          ]
+        : []),
+    ];
+
+    const choice = await vscode.window.showWarningMessage(
+      `Update the framework of ${project.name} to ${target}?`,
+      { modal: true, detail: details.join('\n') || 'The checked out version already matches.' },
+      'Update'
+    );
+    if (choice !== 'Update') {
+      return;
+    }
+
+    const result = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `Updating the framework to ${target}...` },
+      () =>
+        runProcess('git', ['checkout', '--detach', target], { cwd: frameworkRoot, log: this.log }).catch(
+          (error: Error) => ({ exitCode: 1, stderr: error.message })
+        )
+    );
+    if (result.exitCode !== 0) {
+      vscode.window
+        .showErrorMessage(`Failed to update the framework: ${result.stderr.trim()}`, 'Show Output')
+        .then((action) => action && this.log.show());
+    } else {
+      vscode.window.showInformationMessage(`The framework of ${project.name} is now at ${target}.`);
+    }
+    await this.update();
+  }
+
+  /**
+   * Returns the framework checkout of a project, reporting an error if it is not a git checkout.
+   */
+  private getCheckout(project: MiracleProject): string | undefined {
+    const frameworkRoot = getFrameworkPath(project.root);
+    if (!fs.existsSync(path.join(frameworkRoot, '.git'))) {
+      vscode.window.showErrorMessage(
+        `The framework in ${frameworkRoot} is not a git checkout, its version cannot be changed.`
+      );
+      return undefined;
+    }
+    return frameworkRoot;
+  }
+
+  /**
+   * Lets the user pick a tag or the upstream branch, newest tags first.
+   */
+  private async pickVersion(frameworkRoot: string, placeHolder: string): Promise<string | undefined> {
+    const current = await git(frameworkRoot, ['describe', '--tags', '--always']);
+    const tags = (await git(frameworkRoot, ['tag', '--list', '--sort=-v:refname']))?.split(/\r?\n/) ?? [];
+    const branches =
+      (await git(frameworkRoot, ['for-each-ref', '--format=%(refname:short)', 'refs/remotes']))
+        ?.split(/\r?\n/)
+        .filter((branch) => !branch.endsWith('/HEAD')) ?? [];
+
+    const items: VersionItem[] = [
+      ...tags
+        .filter((tag) => tag !== '')
+        .map((tag) => ({ label: `$(tag) ${tag}`, description: tag === current ? 'current' : undefined, ref: tag })),
+      ...branches
+        .filter((branch) => branch !== '')
+        .map((branch) => ({ label: `$(git-branch) ${branch}`, description: 'latest', ref: branch })),
+    ];
+    if (items.length === 0) {
+      vscode.window.showInformationMessage('No framework versions are known. Fetch the framework versions first.');
+      return undefined;
+    }
+
+    const picked = await vscode.window.showQuickPick(items, { placeHolder, matchOnDescription: true });
+    return picked?.ref;
+  }
+
+  dispose() {
+    this.disposables.forEach((d) => d.dispose());
+  }
+}
+
+/**
+ * Runs a git command in a folder.
+ * @returns The trimmed output, or undefined if the command failed.
+ */
+async function git(cwd: string, args: string[]): Promise<string | undefined> {
+  try {
+    const result = await runProcess('git', args, { cwd });
+    return result.exitCode === 0 ? result.stdout.trim() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Lists the commits, one line each, that checking out a ref would add and remove.
+ */
+async function getChangelog(frameworkRoot: string, target: string): Promise<{ added: string[]; removed: string[] }> {
+  const list = async (range: string) =>
+    ((await git(frameworkRoot, ['log', '--oneline', '--no-decorate', range])) ?? '')
+      .split(/\r?\n/)
+      .filter((line) => line !== '');
+  return { added: await list(`HEAD..${target}`), removed: await list(`${target}..HEAD`) };
+}
+
+/**
+ * Returns the config.ini keys that no script of a framework version mentions, which usually
+ * means that version does not read them.
+ */
+async function findUnknownKeys(frameworkRoot: string, target: string, keys: string[]): Promise<string[]> {
+  if (keys.length === 0) {
+    return [];
+  }
+  const found = await git(frameworkRoot, [
+    'grep',
+    '--only-matching',
+    '-h',
+    '--word-regexp',
+    '--fixed-strings',
+    ...keys.flatMap((key) => ['-e', key]),
+    target,
+    '--',
+    'scripts',
+  ]);
+  // git grep exits with 1 when nothing matches, in which case no key is known
+  const known = new Set((found ?? '').split(/\r?\n/));
+  return keys.filter((key) => !known.has(key));
+}
@@ -0,0 +1,209 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { MiracleProject, MiracleProjectManager } from './projects';
+import { MIRACLE_TASK_TYPE, MiracleTaskEndEvent, MiracleTaskProvider } from './taskProvider';
+import { getHostPlatform } from './platform';
+import { BuildLog } from './buildLog';
+
+/**
+ * A library waiting to be hot compiled.
+ */
+interface HotReloadTarget {
+  project: MiracleProject;
+  library: string;
+}
+
+/**
+ * HotReloadWatcher hot compiles a library whenever one of its source files is saved.
+ * A saved file is mapped to the [library.<name>] section whose path contains it. Saves are
+ * debounced, and libraries saved while a hot compile is running are coalesced and built
+ * once it finishes.
+ */
+export class HotReloadWatcher implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = [];
+  private statusItem: vscode.StatusBarItem;
+  private pending = new Map<string, HotReloadTarget>();
+  private timer: NodeJS.Timeout | undefined;
+  private currentTarget: HotReloadTarget | undefined;
+  private finishedBuilds = new WeakSet<MiracleTaskEndEvent>();
+
+  /**
+   * @param log The log saves that could not be hot compiled are recorded in.
+   */
+  constructor(
+    private projectManager: MiracleProjectManager,
+    private taskProvider: MiracleTaskProvider,
+    private log: BuildLog
+  ) {
+    this.statusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 49);
+    this.statusItem.name = 'Miracle Hot Reload';
+    this.statusItem.command = 'miracle.toggleHotReload';
+
+    this.disposables.push(
+      this.statusItem,
+      vscode.workspace.onDidSaveTextDocument((document) => this.handleSave(document)),
+      taskProvider.onDidEndTask((event) => this.handleTaskEnd(event)),
+      projectManager.onDidChangeProjects(() => this.updateStatus()),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration('miracle.hotReload')) {
+          this.updateStatus();
+        }
+      })
+    );
+    this.updateStatus();
+  }
+
+  /**
+   * Whether hot reload on save is currently enabled.
+   */
+  get enabled(): boolean {
+    return vscode.workspace.getConfiguration('miracle.hotReload').get<boolean>('enabled', false);
+  }
+
+  /**
+   * The platform libraries are hot compiled for, the host platform unless configured.
+   */
+  get platform(): string {
+    return vscode.workspace.getConfiguration('miracle.hotReload').get<string>('platform') ?? getHostPlatform() ?? 'linux';
+  }
+
+  /**
+   * Turns hot reload on save on or off for the workspace.
+   */
+  async toggle() {
+    const enabled = !this.enabled;
+    await vscode.workspace
+      .getConfiguration('miracle.hotReload')
+      .update('enabled', enabled, vscode.ConfigurationTarget.Workspace);
+    vscode.window.setStatusBarMessage(`Miracle: hot reload ${enabled ? 'enabled' : 'disabled'}.`, 3000);
+  }
+
+  /**
+   * Finds the library whose source folder contains the given file.
+   * @param filePath The absolute path of a file.
+   * @returns The project and name of the library, or undefined if no library contains the file.
+   */
+  findLibraryForFile(filePath: string): HotReloadTarget | undefined {
+    const project = this.projectManager.getProject(filePath);
+    if (!project) {
+      return undefined;
+    }
+
+    let match: { name: string; length: number } | undefined;
+
+    for (const library of project.config.getLibraries()) {
+      const relative = path.relative(library.path, filePath);
+      const isInside = relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+
+      // Prefer the most specific library when library folders are nested
+      if (isInside && (!match || library.path.length > match.length)) {
+        match = { name: library.name, length: library.path.length };
+      }
+    }
+
+    return match && { project, library: match.name };
+  }
+
+  private handleSave(document: vscode.TextDocument) {
+    if (!this.enabled || document.uri.scheme !== 'file') {
+      return;
+    }
+
+    const target = this.findLibraryForFile(document.uri.fsPath);
+    if (!target) {
+      return;
+    }
+
+    this.pending.set(`${target.project.root}\0${target.library}`, target);
+
+    const delay = vscode.workspace.getConfiguration('miracle.hotReload').get<number>('debounce', 300);
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.buildNext();
+    }, delay);
+  }
+
+  /**
+   * Returns whether a finished task is a hot compile started by a save.
+   */
+  isHotReloadBuild(event: MiracleTaskEndEvent): boolean {
+    return this.finishedBuilds.has(event) || this.isCurrentBuild(event);
+  }
+
+  private isCurrentBuild(event: MiracleTaskEndEvent): boolean {
+    return (
+      this.currentTarget !== undefined &&
+      event.projectRoot === this.currentTarget.project.root &&
+      event.definition.command === 'build' &&
+      event.definition.target === this.currentTarget.library
+    );
+  }
+
+  private handleTaskEnd(event: MiracleTaskEndEvent) {
+    if (this.isCurrentBuild(event)) {
+      // Remembered so that listeners notified after this one still recognize the build
+      this.finishedBuilds.add(event);
+      this.currentTarget = undefined;
+      this.buildNext();
+    }
+  }
+
+  /**
+   * Starts a hot compile for the next pending library unless one is already running.
+   */
+  private async buildNext() {
+    if (this.currentTarget !== undefined || this.timer) {
+      return;
+    }
+
+    const [next] = this.pending;
+    if (next === undefined) {
+      return;
+    }
+    const [key, target] = next;
+    this.pending.delete(key);
+
+    const platform = this.platform;
+    this.currentTarget = target;
+
+    let execution: vscode.TaskExecution | undefined;
+    try {
+      execution = await this.taskProvider.runTask(
+        { type: MIRACLE_TASK_TYPE, command: 'build', target: target.library, platform, buildType: 'hot' },
+        target.project
+      );
+    } catch (error: any) {
+      this.log.channel.error(`Hot reload failed to start a build of ${target.library}: ${error.message ?? error}`);
+    } finally {
+      if (!execution) {
+        // The build script is missing or another build is running under the 'reject' policy,
+        // drop the queue rather than retrying on every save
+        const dropped = [target, ...this.pending.values()].map((pending) => pending.library);
+        this.currentTarget = undefined;
+        this.pending.clear();
+        this.log.channel.warn(`Hot reload did not build ${dropped.join(', ')}, save again to retry.`);
+      }
+    }
+  }
+
+  private updateStatus() {
+    if (this.enabled && this.projectManager.projects.length > 0) {
+      const platform = this.platform;
+      this.statusItem.text = '$(flame) Hot Reload';
+      this.statusItem.tooltip = `Miracle: hot compiling libraries on save (${platform}). Click to disable.`;
+      this.statusItem.show();
+    } else {
+      this.statusItem.hide();
+    }
+  }
+
+  dispose() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.disposables.forEach((d) => d.dispose());
+  }
+}
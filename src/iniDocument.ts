@@ -0,0 +1,380 @@
+/**
+ * A key/value line of an INI file, with the columns of its key and value so that editor
+ * features can point at them.
+ */
+export interface IniEntry {
+  key: string;
+  /** The value with surrounding quotes and trailing comments removed. */
+  value: string;
+  line: number;
+  keyStart: number;
+  keyEnd: number;
+  valueStart: number;
+  valueEnd: number;
+}
+
+/**
+ * A section of an INI file. Keys that appear before the first section header belong to a
+ * section with an empty name and a line of -1.
+ */
+export interface IniSection {
+  name: string;
+  line: number;
+  nameStart: number;
+  nameEnd: number;
+  entries: IniEntry[];
+}
+
+/**
+ * A line of an INI file that could not be parsed. It is skipped, and the rest of the file
+ * is read as if it were not there.
+ */
+export interface IniProblem {
+  line: number;
+  message: string;
+}
+
+/**
+ * A replacement of the characters from a column of one line to a column of the same or a
+ * later line. Insertions have an equal start and end. Edits refer to the document as it was
+ * parsed and never overlap.
+ */
+export interface IniEdit {
+  line: number;
+  start: number;
+  /** The line the replaced range ends on, defaults to line. */
+  endLine?: number;
+  end: number;
+  text: string;
+}
+
+const SECTION_HEADER = /^(\s*\[)([^\]]*)\]\s*(?:[;#].*)?$/;
+
+/**
+ * IniDocument is the parsed form of config.ini shared by the tree view and the editor
+ * features. Unlike a plain object it remembers where every section and key is, and which
+ * sections are declared more than once.
+ */
+export class IniDocument {
+  private constructor(
+    readonly lines: string[],
+    readonly sections: IniSection[],
+    readonly problems: IniProblem[],
+    private readonly eol: string
+  ) {}
+
+  /**
+   * Parses the text of an INI file. Comment lines start with ';' or '#'.
+   * @param text The contents of the file.
+   */
+  static parse(text: string): IniDocument {
+    const lines = text.split(/\r?\n/);
+    const eol = text.includes('\r\n') ? '\r\n' : '\n';
+    const root: IniSection = { name: '', line: -1, nameStart: 0, nameEnd: 0, entries: [] };
+    const sections: IniSection[] = [root];
+    const problems: IniProblem[] = [];
+    let current = root;
+
+    lines.forEach((text, line) => {
+      const trimmed = text.trim();
+      if (trimmed === '' || trimmed.startsWith(';') || trimmed.startsWith('#')) {
+        return;
+      }
+
+      const header = SECTION_HEADER.exec(text);
+      if (header) {
+        const nameStart = header[1].length + (header[2].length - header[2].trimStart().length);
+        const name = header[2].trim();
+        current = { name, line, nameStart, nameEnd: nameStart + name.length, entries: [] };
+        sections.push(current);
+        return;
+      }
+
+      if (trimmed.startsWith('[')) {
+        problems.push({ line, message: `Malformed section header '${trimmed}'.` });
+        return;
+      }
+      const entry = parseEntry(text, line);
+      if (entry.key === '') {
+        problems.push({ line, message: 'Missing key before \'=\'.' });
+        return;
+      }
+      current.entries.push(entry);
+    });
+
+    return new IniDocument(lines, sections, problems, eol);
+  }
+
+  /**
+   * Returns every declaration of a section, in file order.
+   * @param name The section name, e.g. 'library.test'.
+   */
+  getSections(name: string): IniSection[] {
+    return this.sections.filter((section) => section.name === name);
+  }
+
+  /**
+   * Returns the first declaration of a section.
+   * @param name The section name, e.g. 'library.test'.
+   */
+  getSection(name: string): IniSection | undefined {
+    return this.sections.find((section) => section.name === name);
+  }
+
+  /**
+   * Returns the value of a key, looking at every declaration of the section.
+   * Later declarations win, the same way they do in toObject.
+   */
+  getValue(section: string, key: string): string | undefined {
+    let value: string | undefined;
+    for (const s of this.getSections(section)) {
+      for (const entry of s.entries) {
+        if (entry.key === key) {
+          value = entry.value;
+        }
+      }
+    }
+    return value;
+  }
+
+  /**
+   * Converts the document to nested objects, where a section named 'library.test' becomes
+   * `{ library: { test: { ... } } }`. Repeated sections are merged.
+   */
+  toObject(): any {
+    const result: any = {};
+
+    for (const section of this.sections) {
+      let target = result;
+      if (section.name !== '') {
+        for (const part of section.name.split('.')) {
+          if (typeof target[part] !== 'object' || target[part] === null) {
+            target[part] = {};
+          }
+          target = target[part];
+        }
+      }
+
+      for (const entry of section.entries) {
+        if (entry.key.endsWith('[]')) {
+          const key = entry.key.slice(0, -2);
+          target[key] = Array.isArray(target[key]) ? [...target[key], entry.value] : [entry.value];
+        } else {
+          target[entry.key] = entry.value;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Sets the value of a key, leaving every other line untouched. The last occurrence of the
+   * key is changed, matching the value toObject reports. Missing keys are added at the end of
+   * the section and missing sections at the end of the document.
+   * @param section The section name, e.g. 'library.test'.
+   * @param key The key name.
+   * @param value The new value.
+   */
+  setValue(section: string, key: string, value: string): IniEdit[] {
+    const declarations = this.getSections(section);
+    const entry = declarations
+      .flatMap((s) => s.entries)
+      .filter((e) => e.key === key)
+      .pop();
+
+    if (entry) {
+      const text = this.lines[entry.line];
+      const quote = text[entry.valueStart];
+      const quoted = (quote === '"' || quote === "'") && entry.valueEnd - entry.valueStart === entry.value.length + 2;
+      let newText = quoted ? `${quote}${value}${quote}` : value;
+
+      if (entry.valueStart === entry.valueEnd && text.indexOf('=') === -1) {
+        // A bare key without '='
+        return [{ line: entry.line, start: entry.keyEnd, end: entry.keyEnd, text: `${this.separator()}${newText}` }];
+      }
+      if (entry.valueStart === text.length && text.endsWith('=') && this.separator() === ' = ') {
+        // An empty value written as 'key =' gets the space the rest of the document uses
+        newText = ` ${newText}`;
+      }
+      return [{ line: entry.line, start: entry.valueStart, end: entry.valueEnd, text: newText }];
+    }
+
+    if (declarations.length === 0) {
+      return this.addSection(section, [[key, value]]);
+    }
+
+    const last = declarations[declarations.length - 1];
+    const line = last.entries.length > 0 ? last.entries[last.entries.length - 1].line : last.line;
+    if (line < 0) {
+      // Keys before the first section are inserted at the top of the file
+      return [{ line: 0, start: 0, end: 0, text: `${this.formatEntry(key, value)}${this.eol}` }];
+    }
+    const end = this.lines[line].length;
+    return [{ line, start: end, end, text: `${this.eol}${this.formatEntry(key, value)}` }];
+  }
+
+  /**
+   * Appends a library to a comma-separated dependencies value.
+   * @param section The section name, e.g. 'application'.
+   * @param dependency The library to append.
+   */
+  appendDependency(section: string, dependency: string): IniEdit[] {
+    const current = this.getValue(section, 'dependencies') ?? '';
+    const separator = current.includes(', ') ? ', ' : ',';
+    const value = current.trim() === '' ? dependency : `${current.replace(/[\s,]+$/, '')}${separator}${dependency}`;
+    return this.setValue(section, 'dependencies', value);
+  }
+
+  /**
+   * Removes a library from a comma-separated dependencies value.
+   * @param section The section name, e.g. 'application'.
+   * @param dependency The library to remove.
+   * @returns No edits if the section does not depend on the library.
+   */
+  removeDependency(section: string, dependency: string): IniEdit[] {
+    return this.replaceDependency(section, dependency, undefined);
+  }
+
+  /**
+   * Replaces a library in a comma-separated dependencies value, or removes it if no
+   * replacement is given.
+   * @returns No edits if the section does not depend on the library.
+   */
+  replaceDependency(section: string, dependency: string, replacement: string | undefined): IniEdit[] {
+    const current = this.getValue(section, 'dependencies');
+    if (current === undefined) {
+      return [];
+    }
+
+    const separator = current.includes(', ') ? ', ' : ',';
+    const dependencies = current.split(',').map((dep) => dep.trim()).filter((dep) => dep !== '');
+    if (!dependencies.includes(dependency)) {
+      return [];
+    }
+
+    const updated = dependencies
+      .map((dep) => (dep === dependency ? replacement : dep))
+      .filter((dep): dep is string => dep !== undefined);
+    return this.setValue(section, 'dependencies', [...new Set(updated)].join(separator));
+  }
+
+  /**
+   * Renames every declaration of a section, keeping its keys and comments.
+   * @param section The current section name, e.g. 'library.old'.
+   * @param newName The new section name, e.g. 'library.new'.
+   */
+  renameSection(section: string, newName: string): IniEdit[] {
+    return this.getSections(section)
+      .filter((s) => s.line >= 0)
+      .map((s) => ({ line: s.line, start: s.nameStart, end: s.nameEnd, text: newName }));
+  }
+
+  /**
+   * Removes every declaration of a section, from its header to its last key. A blank line
+   * that would be left doubled is removed too.
+   * @param section The section name, e.g. 'library.test'.
+   */
+  removeSection(section: string): IniEdit[] {
+    return this.getSections(section)
+      .filter((s) => s.line >= 0)
+      .map((s) => {
+        const lastLine = s.entries.length > 0 ? s.entries[s.entries.length - 1].line : s.line;
+
+        // At the end of the document, also remove the blank lines separating the section
+        if (this.lines.slice(lastLine + 1).every((text) => text.trim() === '')) {
+          let previous = s.line - 1;
+          while (previous >= 0 && this.lines[previous].trim() === '') {
+            previous--;
+          }
+          const start = previous >= 0 ? { line: previous, start: this.lines[previous].length } : { line: 0, start: 0 };
+          return { ...start, endLine: lastLine, end: this.lines[lastLine].length, text: '' };
+        }
+
+        let endLine = lastLine + 1;
+
+        const blankBefore = s.line === 0 || this.lines[s.line - 1].trim() === '';
+        if (blankBefore && this.lines[endLine].trim() === '') {
+          endLine++;
+        }
+
+        return { line: s.line, start: 0, endLine, end: 0, text: '' };
+      });
+  }
+
+  /**
+   * Appends a new section with the given keys at the end of the document, separated from the
+   * previous content by a blank line.
+   * @param section The section name, e.g. 'library.test'.
+   * @param entries The keys and values of the section, in order.
+   */
+  addSection(section: string, entries: [string, string][]): IniEdit[] {
+    const body = [`[${section}]`, ...entries.map(([key, value]) => this.formatEntry(key, value))].join(this.eol);
+
+    // Insert after the last non-blank line so trailing blank lines stay at the end
+    let line = this.lines.length - 1;
+    while (line >= 0 && this.lines[line].trim() === '') {
+      line--;
+    }
+
+    if (line < 0) {
+      return [{ line: 0, start: 0, end: 0, text: `${body}${this.eol}` }];
+    }
+    const end = this.lines[line].length;
+    return [{ line, start: end, end, text: `${this.eol}${this.eol}${body}` }];
+  }
+
+  /**
+   * Formats a new key line using the spacing around '=' found in the document.
+   */
+  private formatEntry(key: string, value: string): string {
+    return `${key}${this.separator()}${value}`.trimEnd();
+  }
+
+  private separator(): string {
+    const entry = this.sections.flatMap((s) => s.entries).find((e) => e.valueStart > e.keyEnd);
+    if (entry) {
+      const text = this.lines[entry.line];
+      return /\s=/.test(text.substring(entry.keyEnd, entry.valueStart)) ? ' = ' : '=';
+    }
+    return ' = ';
+  }
+}
+
+/**
+ * Parses a 'key = value' line. A line without '=' is a key whose value is 'true'.
+ */
+function parseEntry(text: string, line: number): IniEntry {
+  const keyStart = text.length - text.trimStart().length;
+  const separator = text.indexOf('=');
+
+  if (separator === -1) {
+    const key = text.trim();
+    return { key, value: 'true', line, keyStart, keyEnd: keyStart + key.length, valueStart: text.length, valueEnd: text.length };
+  }
+
+  const key = text.substring(0, separator).trim();
+  const rawValue = text.substring(separator + 1);
+  const valueStart = separator + 1 + (rawValue.length - rawValue.trimStart().length);
+  const { value, length } = parseValue(text.substring(valueStart));
+
+  return { key, value, line, keyStart, keyEnd: keyStart + key.length, valueStart, valueEnd: valueStart + length };
+}
+
+/**
+ * Reads a value, removing surrounding quotes or a trailing ';' or '#' comment.
+ * @returns The value and the number of characters it occupies in the line.
+ */
+function parseValue(text: string): { value: string; length: number } {
+  const quote = text[0];
+  if (quote === '"' || quote === "'") {
+    const end = text.indexOf(quote, 1);
+    if (end !== -1) {
+      return { value: text.substring(1, end), length: end + 1 };
+    }
+  }
+
+  const comment = text.search(/[;#]/);
+  const value = (comment === -1 ? text : text.substring(0, comment)).trimEnd();
+  return { value, length: value.length };
+}
@@ -0,0 +1,305 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { IniDocument, IniEntry, IniSection } from './iniDocument';
+import { getKeySchema, getSectionSchema, validateIniValue } from './iniSchema';
+import { MiracleProjectManager } from './projects';
+
+const LIBRARY_NAME = /[A-Za-z0-9_-]+/;
+
+/**
+ * IniLanguageFeatures checks config.ini while it is edited as text and provides completion
+ * for section names, keys and library names, and go-to-definition from a dependency to its
+ * [library.x] section. Documents are parsed with IniDocument, the same parser behind the
+ * Project Configuration tree. Only the config.ini of a Miracle project is handled.
+ */
+export class IniLanguageFeatures implements vscode.CompletionItemProvider, vscode.DefinitionProvider, vscode.Disposable {
+  private diagnostics = vscode.languages.createDiagnosticCollection('miracle');
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private projectManager: MiracleProjectManager) {
+    const selector: vscode.DocumentSelector = { scheme: 'file', pattern: '**/config.ini' };
+
+    this.disposables.push(
+      this.diagnostics,
+      vscode.languages.registerCompletionItemProvider(selector, this, '[', '=', ',', '.'),
+      vscode.languages.registerDefinitionProvider(selector, this),
+      vscode.workspace.onDidOpenTextDocument((document) => this.validate(document)),
+      vscode.workspace.onDidChangeTextDocument((event) => this.validate(event.document)),
+      vscode.workspace.onDidCloseTextDocument((document) => this.diagnostics.delete(document.uri)),
+      projectManager.onDidChangeProjects(() => {
+        this.diagnostics.clear();
+        vscode.workspace.textDocuments.forEach((document) => this.validate(document));
+      })
+    );
+    vscode.workspace.textDocuments.forEach((document) => this.validate(document));
+  }
+
+  /**
+   * Reports problems in the project's config.ini: invalid values, unknown library references
+   * in dependencies, missing library folders and duplicate sections.
+   */
+  validate(document: vscode.TextDocument) {
+    if (!this.isProjectConfig(document)) {
+      return;
+    }
+
+    const ini = IniDocument.parse(document.getText());
+    const libraries = getLibraryNames(ini);
+    const diagnostics: vscode.Diagnostic[] = [];
+    const declared = new Map<string, IniSection>();
+
+    for (const problem of ini.problems) {
+      const text = ini.lines[problem.line];
+      const start = text.length - text.trimStart().length;
+      diagnostics.push(
+        new vscode.Diagnostic(
+          new vscode.Range(problem.line, start, problem.line, text.trimEnd().length),
+          problem.message,
+          vscode.DiagnosticSeverity.Error
+        )
+      );
+    }
+
+    for (const section of ini.sections) {
+      if (section.line < 0) {
+        continue;
+      }
+      const headerRange = new vscode.Range(section.line, section.nameStart, section.line, section.nameEnd);
+
+      const first = declared.get(section.name);
+      if (first) {
+        diagnostics.push(
+          new vscode.Diagnostic(
+            headerRange,
+            `Section [${section.name}] is already declared on line ${first.line + 1}.`,
+            vscode.DiagnosticSeverity.Warning
+          )
+        );
+      } else {
+        declared.set(section.name, section);
+      }
+
+      const schema = getSectionSchema(section.name);
+      if (!schema) {
+        continue;
+      }
+
+      // Required keys only need to be present in one declaration of the section
+      if (!first) {
+        for (const key of schema.keys.filter((k) => k.required)) {
+          if (ini.getValue(section.name, key.key) === undefined) {
+            diagnostics.push(
+              new vscode.Diagnostic(
+                headerRange,
+                `[${section.name}] is missing the '${key.key}' key.`,
+                vscode.DiagnosticSeverity.Warning
+              )
+            );
+          }
+        }
+      }
+
+      for (const entry of section.entries) {
+        diagnostics.push(...validateEntry(ini, section, entry, libraries, path.dirname(document.uri.fsPath)));
+      }
+    }
+
+    this.diagnostics.set(document.uri, diagnostics);
+  }
+
+  provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] {
+    if (!this.isProjectConfig(document)) {
+      return [];
+    }
+
+    const ini = IniDocument.parse(document.getText());
+    const linePrefix = document.lineAt(position.line).text.substring(0, position.character);
+
+    // Section names inside a header
+    const header = /^\s*\[([^\]]*)$/.exec(linePrefix);
+    if (header) {
+      const range = new vscode.Range(position.line, position.character - header[1].length, position.line, position.character);
+      const application = new vscode.CompletionItem('application', vscode.CompletionItemKind.Module);
+      const library = new vscode.CompletionItem('library.', vscode.CompletionItemKind.Module);
+      library.insertText = new vscode.SnippetString('library.${1:name}');
+      return [application, library].map((item) => {
+        item.range = range;
+        return item;
+      });
+    }
+
+    const section = getSectionAt(ini, position.line);
+    const schema = section ? getSectionSchema(section.name) : undefined;
+    if (!section || !schema) {
+      return [];
+    }
+
+    // Keys of the current section that are not set yet
+    const separator = linePrefix.indexOf('=');
+    if (separator === -1) {
+      const existing = new Set(section.entries.map((entry) => entry.key));
+      return schema.keys
+        .filter((key) => !existing.has(key.key))
+        .map((key) => {
+          const item = new vscode.CompletionItem(key.key, vscode.CompletionItemKind.Property);
+          item.insertText = `${key.key} = `;
+          item.documentation = key.description;
+          return item;
+        });
+    }
+
+    // Values of the key on the current line
+    const keySchema = getKeySchema(section.name, linePrefix.substring(0, separator).trim());
+    const range = document.getWordRangeAtPosition(position, LIBRARY_NAME);
+
+    if (keySchema?.kind === 'enum') {
+      return (keySchema.values ?? []).map((value) => {
+        const item = new vscode.CompletionItem(value, vscode.CompletionItemKind.EnumMember);
+        item.range = range;
+        return item;
+      });
+    }
+
+    if (keySchema?.kind === 'dependencies') {
+      const listed = new Set(linePrefix.substring(separator + 1).split(',').map((dep) => dep.trim()));
+      const self = section.name.substring('library.'.length);
+      return [...getLibraryNames(ini)]
+        .filter((name) => name !== self && !listed.has(name))
+        .map((name) => {
+          const item = new vscode.CompletionItem(name, vscode.CompletionItemKind.Reference);
+          item.range = range;
+          return item;
+        });
+    }
+
+    return [];
+  }
+
+  provideDefinition(document: vscode.TextDocument, position: vscode.Position): vscode.Location | undefined {
+    if (!this.isProjectConfig(document)) {
+      return undefined;
+    }
+
+    const ini = IniDocument.parse(document.getText());
+    const entry = getSectionAt(ini, position.line)?.entries.find((e) => e.line === position.line);
+    if (!entry || entry.key !== 'dependencies' || position.character < entry.valueStart) {
+      return undefined;
+    }
+
+    const range = document.getWordRangeAtPosition(position, LIBRARY_NAME);
+    const target = range ? ini.getSection(`library.${document.getText(range)}`) : undefined;
+    if (!target) {
+      return undefined;
+    }
+
+    return new vscode.Location(document.uri, new vscode.Position(target.line, target.nameStart));
+  }
+
+  private isProjectConfig(document: vscode.TextDocument): boolean {
+    if (document.uri.scheme !== 'file') {
+      return false;
+    }
+    const fsPath = path.resolve(document.uri.fsPath);
+    return this.projectManager.projects.some((project) => path.join(project.root, 'config.ini') === fsPath);
+  }
+
+  dispose() {
+    this.disposables.forEach((d) => d.dispose());
+  }
+}
+
+/**
+ * Checks a single key against the schema of its section.
+ * @param projectRoot The folder containing config.ini, which paths are relative to.
+ */
+function validateEntry(
+  ini: IniDocument,
+  section: IniSection,
+  entry: IniEntry,
+  libraries: Set<string>,
+  projectRoot: string
+): vscode.Diagnostic[] {
+  const keySchema = getKeySchema(section.name, entry.key);
+  const valueRange = new vscode.Range(entry.line, entry.valueStart, entry.line, entry.valueEnd);
+
+  if (!keySchema) {
+    return [
+      new vscode.Diagnostic(
+        new vscode.Range(entry.line, entry.keyStart, entry.line, entry.keyEnd),
+        `'${entry.key}' is not a known key of [${getSectionSchema(section.name)?.name}].`,
+        vscode.DiagnosticSeverity.Information
+      ),
+    ];
+  }
+
+  if (keySchema.kind === 'dependencies') {
+    return getDependencyRanges(ini, entry)
+      .filter(({ name }) => !libraries.has(name))
+      .map(
+        ({ name, start }) =>
+          new vscode.Diagnostic(
+            new vscode.Range(entry.line, start, entry.line, start + name.length),
+            `Unknown library '${name}'.`,
+            vscode.DiagnosticSeverity.Error
+          )
+      );
+  }
+
+  const problem = validateIniValue(keySchema, entry.value);
+  if (problem) {
+    return [new vscode.Diagnostic(valueRange, problem, vscode.DiagnosticSeverity.Error)];
+  }
+
+  if (keySchema.kind === 'path' && !fs.existsSync(path.resolve(projectRoot, entry.value))) {
+    return [
+      new vscode.Diagnostic(valueRange, `Folder '${entry.value}' does not exist.`, vscode.DiagnosticSeverity.Warning),
+    ];
+  }
+
+  return [];
+}
+
+/**
+ * Returns the names of the libraries declared in a document.
+ */
+function getLibraryNames(ini: IniDocument): Set<string> {
+  return new Set(
+    ini.sections
+      .filter((section) => section.name.startsWith('library.'))
+      .map((section) => section.name.substring('library.'.length))
+      .filter((name) => name !== '')
+  );
+}
+
+/**
+ * Returns the section a line belongs to.
+ */
+function getSectionAt(ini: IniDocument, line: number): IniSection | undefined {
+  let result: IniSection | undefined;
+  for (const section of ini.sections) {
+    if (section.line <= line) {
+      result = section;
+    }
+  }
+  return result;
+}
+
+/**
+ * Splits a dependencies entry into library names with the column each one starts at.
+ */
+function getDependencyRanges(ini: IniDocument, entry: IniEntry): { name: string; start: number }[] {
+  const text = ini.lines[entry.line];
+  const quoted = text[entry.valueStart] === '"' || text[entry.valueStart] === "'";
+  let offset = entry.valueStart + (quoted ? 1 : 0);
+  const ranges: { name: string; start: number }[] = [];
+
+  for (const part of entry.value.split(',')) {
+    const name = part.trim();
+    if (name !== '') {
+      ranges.push({ name, start: offset + (part.length - part.trimStart().length) });
+    }
+    offset += part.length + 1;
+  }
+  return ranges;
+}
@@ -0,0 +1,150 @@
+import * as path from 'path';
+
+/**
+ * The kind of value a config.ini key holds, which decides how it is edited.
+ * - 'string': free text
+ * - 'enum': one of a fixed set of values
+ * - 'path': a folder relative to the project root
+ * - 'dependencies': a comma-separated list of library names
+ */
+export type IniValueKind = 'string' | 'enum' | 'path' | 'dependencies';
+
+/**
+ * Describes a key known to the Miracle Framework.
+ */
+export interface IniKeySchema {
+  key: string;
+  kind: IniValueKind;
+  description: string;
+  /** The allowed values of an 'enum' key. */
+  values?: string[];
+  required?: boolean;
+}
+
+/**
+ * Describes a section known to the Miracle Framework.
+ */
+export interface IniSectionSchema {
+  /** The section name, where '*' stands for a library name. */
+  name: string;
+  description: string;
+  keys: IniKeySchema[];
+}
+
+/**
+ * Library names may only contain letters, numbers, underscores, and hyphens.
+ */
+export const LIBRARY_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * The library types supported by build.py.
+ */
+export const LIBRARY_TYPES = ['static', 'dynamic'];
+
+const DEPENDENCIES_KEY: IniKeySchema = {
+  key: 'dependencies',
+  kind: 'dependencies',
+  description: 'Comma-separated list of libraries this section depends on.',
+};
+
+const APPLICATION_SCHEMA: IniSectionSchema = {
+  name: 'application',
+  description: 'The application built into the executable.',
+  keys: [
+    { key: 'name', kind: 'string', description: 'The name of the application.' },
+    { key: 'path', kind: 'path', description: 'The folder containing the application sources.' },
+    DEPENDENCIES_KEY,
+  ],
+};
+
+const LIBRARY_SCHEMA: IniSectionSchema = {
+  name: 'library.*',
+  description: 'A library built by build.py and linked into the application.',
+  keys: [
+    { key: 'path', kind: 'path', description: 'The folder containing the library sources.', required: true },
+    {
+      key: 'type',
+      kind: 'enum',
+      description: 'Whether the library is linked statically or loaded dynamically.',
+      values: LIBRARY_TYPES,
+      required: true,
+    },
+    DEPENDENCIES_KEY,
+  ],
+};
+
+/**
+ * The sections known to the Miracle Framework.
+ */
+export const SECTION_SCHEMAS: IniSectionSchema[] = [APPLICATION_SCHEMA, LIBRARY_SCHEMA];
+
+/**
+ * Returns the schema of a section.
+ * @param section A section path such as 'application' or 'library.test'.
+ * @returns The schema, or undefined if the section is not known.
+ */
+export function getSectionSchema(section: string): IniSectionSchema | undefined {
+  if (section === 'application') {
+    return APPLICATION_SCHEMA;
+  }
+  if (section.startsWith('library.') && section.length > 'library.'.length) {
+    return LIBRARY_SCHEMA;
+  }
+  return undefined;
+}
+
+/**
+ * Returns the schema of a key in a section.
+ * @param section A section path such as 'application' or 'library.test'.
+ * @param key The key name.
+ * @returns The schema, or undefined if the section or the key is not known.
+ */
+export function getKeySchema(section: string, key: string): IniKeySchema | undefined {
+  return getSectionSchema(section)?.keys.find((k) => k.key === key);
+}
+
+/**
+ * Validates a value typed for a key.
+ * @param schema The schema of the key.
+ * @param value The value to validate.
+ * @returns A message describing the problem, or undefined if the value is valid.
+ */
+export function validateIniValue(schema: IniKeySchema, value: string): string | undefined {
+  const trimmed = value.trim();
+
+  switch (schema.kind) {
+    case 'enum':
+      if (!schema.values?.includes(trimmed)) {
+        return `'${schema.key}' must be one of: ${schema.values?.join(', ')}.`;
+      }
+      break;
+    case 'path':
+      if (trimmed === '') {
+        return `'${schema.key}' cannot be empty.`;
+      }
+      if (path.isAbsolute(trimmed)) {
+        return `'${schema.key}' must be relative to the project root.`;
+      }
+      if (/[<>:"|?*]/.test(trimmed)) {
+        return `'${schema.key}' contains characters that are not allowed in a path.`;
+      }
+      break;
+    case 'dependencies': {
+      const invalid = trimmed
+        .split(',')
+        .map((dep) => dep.trim())
+        .filter((dep) => dep !== '' && !LIBRARY_NAME_PATTERN.test(dep));
+      if (invalid.length > 0) {
+        return `Invalid library name: ${invalid.join(', ')}.`;
+      }
+      break;
+    }
+    case 'string':
+      if (schema.required && trimmed === '') {
+        return `'${schema.key}' cannot be empty.`;
+      }
+      break;
+  }
+
+  return undefined;
+}
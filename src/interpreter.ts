@@ -0,0 +1,139 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { findExecutable } from './platform';
+import { BuildLog } from './buildLog';
+
+const PYTHON_EXTENSION_ID = 'ms-python.python';
+
+/**
+ * Resolves the Python interpreter the framework scripts run with. In order of preference:
+ * the miracle.pythonPath setting, the interpreter selected in the Python extension, and the
+ * first of python3 or python found on the PATH. Reports an error offering to select an
+ * interpreter when none is found.
+ * @param resource The project root, used to read folder-level settings and to resolve a
+ * relative miracle.pythonPath such as '.venv/bin/python'.
+ * @param log The log problems with the Python extension are recorded in.
+ * @returns The command to run Python with, or undefined if no interpreter was found.
+ */
+export async function resolvePythonInterpreter(resource?: vscode.Uri, log?: BuildLog): Promise<string | undefined> {
+  const configured = vscode.workspace.getConfiguration('miracle', resource).get<string>('pythonPath', '').trim();
+  if (configured !== '') {
+    const resolved = findCommand(configured, resource);
+    if (!resolved) {
+      showInterpreterError(`The Python interpreter '${configured}' set in miracle.pythonPath was not found.`);
+    }
+    return resolved;
+  }
+
+  const selected = await getPythonExtensionInterpreter(resource, log);
+  if (selected) {
+    return selected;
+  }
+
+  const candidates = process.platform === 'win32' ? ['python', 'py', 'python3'] : ['python3', 'python'];
+  for (const candidate of candidates) {
+    const resolved = findExecutable(candidate);
+    if (resolved) {
+      return resolved;
+    }
+  }
+
+  showInterpreterError('No Python interpreter was found. The Miracle Framework scripts need Python 3.');
+  return undefined;
+}
+
+/**
+ * Returns the framework checkout of a project, the miracle.frameworkPath setting resolved
+ * against the project root, 'miracle' by default.
+ * @param projectRoot The folder containing config.ini.
+ */
+export function getFrameworkPath(projectRoot: string): string {
+  const configured = vscode.workspace
+    .getConfiguration('miracle', vscode.Uri.file(projectRoot))
+    .get<string>('frameworkPath', 'miracle');
+  return path.resolve(projectRoot, configured.trim() || 'miracle');
+}
+
+/**
+ * Returns the path of a framework script and reports an error if it does not exist.
+ * @param frameworkRoot The framework checkout, see getFrameworkPath.
+ * @param script The script name, e.g. 'build.py'.
+ */
+export function resolveScript(frameworkRoot: string, script: string): string | undefined {
+  const scriptPath = path.join(frameworkRoot, 'scripts', script);
+  if (fs.existsSync(scriptPath)) {
+    return scriptPath;
+  }
+
+  vscode.window
+    .showErrorMessage(`The Miracle Framework script ${script} was not found at ${scriptPath}.`, 'Configure Framework Path')
+    .then((action) => {
+      if (action) {
+        vscode.commands.executeCommand('workbench.action.openSettings', 'miracle.frameworkPath');
+      }
+    });
+  return undefined;
+}
+
+/**
+ * Asks the Python extension for the interpreter selected for a resource. Both the current
+ * environments API and the older execution details API are supported.
+ */
+async function getPythonExtensionInterpreter(resource?: vscode.Uri, log?: BuildLog): Promise<string | undefined> {
+  const extension = vscode.extensions.getExtension(PYTHON_EXTENSION_ID);
+  if (!extension) {
+    return undefined;
+  }
+
+  try {
+    const api: any = extension.isActive ? extension.exports : await extension.activate();
+    if (api?.environments?.getActiveEnvironmentPath) {
+      const environmentPath = api.environments.getActiveEnvironmentPath(resource);
+      const environment = await api.environments.resolveEnvironment(environmentPath);
+      return environment?.executable?.uri?.fsPath ?? environmentPath?.path;
+    }
+    const command: string[] | undefined = api?.settings?.getExecutionDetails?.(resource)?.execCommand;
+    return command?.[0];
+  } catch (error: any) {
+    log?.channel.warn(`Failed to get the Python interpreter from the Python extension: ${error.message}`);
+    return undefined;
+  }
+}
+
+/**
+ * Resolves a configured command, which is either a path or a name looked up on the PATH.
+ * Relative paths are looked up in the project root first, then in its workspace folder.
+ * @param resource The project root.
+ */
+function findCommand(command: string, resource?: vscode.Uri): string | undefined {
+  if (path.isAbsolute(command)) {
+    return fs.existsSync(command) ? command : undefined;
+  }
+  if (command.includes('/') || command.includes('\\')) {
+    const bases = [resource?.fsPath, resource && vscode.workspace.getWorkspaceFolder(resource)?.uri.fsPath];
+    return bases
+      .filter((base): base is string => base !== undefined)
+      .map((base) => path.resolve(base, command))
+      .find((candidate) => fs.existsSync(candidate));
+  }
+  return findExecutable(command);
+}
+
+/**
+ * Shows an interpreter error with an action to select one, through the Python extension
+ * when it is installed and the miracle.pythonPath setting otherwise.
+ */
+function showInterpreterError(message: string) {
+  const hasPythonExtension = vscode.extensions.getExtension(PYTHON_EXTENSION_ID) !== undefined;
+  vscode.window.showErrorMessage(message, 'Select Interpreter').then((action) => {
+    if (!action) {
+      return;
+    }
+    if (hasPythonExtension) {
+      vscode.commands.executeCommand('python.setInterpreter');
+    } else {
+      vscode.commands.executeCommand('workbench.action.openSettings', 'miracle.pythonPath');
+    }
+  });
+}
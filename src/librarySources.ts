@@ -0,0 +1,245 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BuildTarget } from './buildLog';
+import { APPLICATION_NODE } from './dependencyGraph';
+
+/**
+ * Whether the artifacts of a target are newer than its sources.
+ */
+export type TargetBuildState = 'upToDate' | 'outdated' | 'notBuilt';
+
+/**
+ * The build state of a target together with the times it is derived from.
+ */
+export interface TargetBuildStatus {
+  state: TargetBuildState;
+  /** The modification time of the newest source file, 0 if there is none. */
+  sourceTime: number;
+  /** The modification time of the newest artifact. */
+  artifactTime?: number;
+  /** Absolute paths of the target's artifacts under bin/. */
+  artifacts: string[];
+}
+
+/**
+ * File extensions of C and C++ source files.
+ */
+const SOURCE_EXTENSIONS = ['.c', '.cpp', '.cc', '.cxx'];
+
+/**
+ * File extensions of C and C++ headers, which a target has to be rebuilt for as well.
+ */
+const HEADER_EXTENSIONS = ['.h', '.hpp', '.hh', '.hxx'];
+
+/**
+ * Matches the files produced for a library or the application, e.g. 'libphysics.so',
+ * 'physics.dll', 'libphysics.a' or 'executable.exe'. The first group is the target name.
+ */
+const ARTIFACT_NAME = /^(?:lib)?(.+?)\.(?:so(?:\.\d+)*|dll|dylib|a|lib|exe|pdb)$/;
+
+/**
+ * Returns the files built for a target under the framework's bin/<platform>/<build type>/
+ * folders, for every platform and build type.
+ * @param frameworkRoot The framework checkout, see getFrameworkPath.
+ * @param outputDir Limits the search to one output folder, e.g. bin/linux/debug.
+ */
+export async function findArtifacts(
+  frameworkRoot: string,
+  target: BuildTarget,
+  outputDir = path.join(frameworkRoot, 'bin')
+): Promise<string[]> {
+  const artifactName = target.name === APPLICATION_NODE ? 'executable' : target.name;
+  return (await listFiles(outputDir, 3)).filter((file) => {
+    const name = path.basename(file);
+    return name === artifactName || ARTIFACT_NAME.exec(name)?.[1] === artifactName;
+  });
+}
+
+/**
+ * Compares the newest source or header file of a target with its newest artifact. The
+ * framework and the folders of other targets are left out, as the application folder is
+ * usually the project root and holds both.
+ * @param frameworkRoot The framework checkout, see getFrameworkPath.
+ * @param targets Every target of the project, see IniTreeDataProvider.getBuildTargets.
+ * @param outputDir Only compares with the artifacts in this folder, see findArtifacts.
+ */
+export async function getTargetBuildStatus(
+  frameworkRoot: string,
+  target: BuildTarget,
+  targets: BuildTarget[],
+  outputDir?: string
+): Promise<TargetBuildStatus> {
+  const excluded = [frameworkRoot, ...targets.map((other) => other.dir)].filter(
+    (dir) => path.resolve(dir) !== path.resolve(target.dir)
+  );
+  const [artifacts, files] = await Promise.all([
+    findArtifacts(frameworkRoot, target, outputDir),
+    listFiles(target.dir, 8, excluded),
+  ]);
+  const extensions = [...SOURCE_EXTENSIONS, ...HEADER_EXTENSIONS];
+  const sources = files.filter((file) => extensions.includes(path.extname(file)));
+  const sourceTime = Math.max(0, ...(await Promise.all(sources.map(getModificationTime))));
+  if (artifacts.length === 0) {
+    return { state: 'notBuilt', sourceTime, artifacts };
+  }
+
+  const artifactTime = Math.max(...(await Promise.all(artifacts.map(getModificationTime))));
+  return { state: sourceTime > artifactTime ? 'outdated' : 'upToDate', sourceTime, artifactTime, artifacts };
+}
+
+/**
+ * Returns the source file a target is best opened at: main.c for the application, a file
+ * named after a library for libraries, and otherwise the first source file found.
+ */
+export async function findMainSource(target: BuildTarget): Promise<string | undefined> {
+  const sources = (await listSourceFiles(target.dir, 3)).sort((a, b) => a.length - b.length || a.localeCompare(b));
+  const preferred = target.name === APPLICATION_NODE ? 'main' : target.name;
+  return sources.find((file) => path.parse(file).name === preferred) ?? sources[0];
+}
+
+/**
+ * Returns the C and C++ source files in a folder and its subfolders.
+ * @param depth How many levels of subfolders to descend into.
+ */
+export async function listSourceFiles(dir: string, depth = 8): Promise<string[]> {
+  return (await listFiles(dir, depth)).filter((file) => SOURCE_EXTENSIONS.includes(path.extname(file)));
+}
+
+/**
+ * A file or folder shown under a library or application node: its source folder, a file
+ * or subfolder of it, the group of built artifacts or one artifact.
+ */
+export class SourceTreeItem extends vscode.TreeItem {
+  /**
+   * Creates a new SourceTreeItem.
+   * @param projectRoot The root folder of the project the target belongs to.
+   * @param fsPath The absolute path of the file or folder.
+   * @param kind What the node stands for.
+   * @param files The artifacts listed under an 'artifacts' node.
+   */
+  constructor(
+    readonly projectRoot: string,
+    readonly fsPath: string,
+    readonly kind: 'sources' | 'artifacts' | 'folder' | 'file' | 'artifact',
+    readonly files: string[] = []
+  ) {
+    super(vscode.Uri.file(fsPath), vscode.TreeItemCollapsibleState.None);
+    this.contextValue = `miracle${kind[0].toUpperCase()}${kind.substring(1)}`;
+
+    switch (kind) {
+      case 'sources':
+        this.label = 'Sources';
+        this.description = path.relative(projectRoot, fsPath) || '.';
+        this.iconPath = new vscode.ThemeIcon('file-directory');
+        this.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+        break;
+      case 'artifacts':
+        this.label = 'Built Artifacts';
+        this.description = String(files.length);
+        this.iconPath = new vscode.ThemeIcon('package');
+        this.collapsibleState =
+          files.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None;
+        break;
+      case 'folder':
+        this.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+        break;
+      case 'file':
+        this.command = { command: 'vscode.open', title: 'Open File', arguments: [this.resourceUri] };
+        break;
+      case 'artifact':
+        // Show the platform and build type folder, as the same file name exists for each
+        this.description = path.dirname(fsPath).split(path.sep).slice(-2).join('/');
+        break;
+    }
+  }
+
+  /**
+   * Returns the nodes under a folder or the artifacts group, folders first.
+   */
+  async getChildren(): Promise<SourceTreeItem[]> {
+    if (this.kind === 'artifacts') {
+      return Promise.all(
+        this.files.map(async (file) => {
+          const item = new SourceTreeItem(this.projectRoot, file, 'artifact');
+          item.tooltip = `${file}\nBuilt ${new Date(await getModificationTime(file)).toLocaleString()}`;
+          return item;
+        })
+      );
+    }
+
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(this.fsPath, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+    return entries
+      .filter((entry) => !entry.name.startsWith('.'))
+      .sort((a, b) => Number(b.isDirectory()) - Number(a.isDirectory()) || a.name.localeCompare(b.name))
+      .map(
+        (entry) =>
+          new SourceTreeItem(this.projectRoot, path.join(this.fsPath, entry.name), entry.isDirectory() ? 'folder' : 'file')
+      );
+  }
+}
+
+/**
+ * Describes a build state in the tree, e.g. as the description of a library node.
+ */
+export function describeBuildState(status: TargetBuildStatus): { label: string; icon: vscode.ThemeIcon; tooltip: string } {
+  const built = status.artifactTime ? new Date(status.artifactTime).toLocaleString() : '';
+  const changed = status.sourceTime ? new Date(status.sourceTime).toLocaleString() : 'never';
+  switch (status.state) {
+    case 'upToDate':
+      return {
+        label: 'up to date',
+        icon: new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed')),
+        tooltip: `Built ${built}, sources last changed ${changed}.`,
+      };
+    case 'outdated':
+      return {
+        label: 'outdated',
+        icon: new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground')),
+        tooltip: `Sources changed ${changed}, after the last build ${built}.`,
+      };
+    case 'notBuilt':
+      return { label: 'not built', icon: new vscode.ThemeIcon('circle-outline'), tooltip: 'No build output was found.' };
+  }
+}
+
+/**
+ * Lists the files in a folder and its subfolders, leaving out hidden ones. The folders are
+ * read asynchronously, as the tree scans every target whenever it is refreshed.
+ * @param depth How many levels of subfolders to descend into.
+ * @param excluded Absolute paths of subfolders to leave out.
+ */
+async function listFiles(dir: string, depth: number, excluded: string[] = []): Promise<string[]> {
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  const files = await Promise.all(
+    entries
+      .filter((entry) => !entry.name.startsWith('.'))
+      .map(async (entry) => {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          const skipped = excluded.some((excludedDir) => path.resolve(excludedDir) === path.resolve(entryPath));
+          return depth > 0 && !skipped ? listFiles(entryPath, depth - 1, excluded) : [];
+        }
+        return entry.isFile() ? [entryPath] : [];
+      })
+  );
+  return files.flat();
+}
+
+async function getModificationTime(file: string): Promise<number> {
+  try {
+    return (await fs.promises.stat(file)).mtimeMs;
+  } catch {
+    return 0;
+  }
+}
@@ -0,0 +1,158 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { APPLICATION_NODE, DependencyGraph, findCycleFromEdge, nodeToSection } from './dependencyGraph';
+import { LIBRARY_NAME_PATTERN, LIBRARY_TYPES } from './iniSchema';
+import { MultiStepInput } from './multiStepInput';
+
+/**
+ * The answers of the library wizard, checked against config.ini and the project folder.
+ */
+export interface LibraryPlan {
+  name: string;
+  type: string;
+  /** The libraries the new library depends on. */
+  dependencies: string[];
+  /** The sections that depend on the new library, e.g. 'application' or 'library.physics'. */
+  dependents: string[];
+  /** A folder whose files are copied over the sources created by setup.py. */
+  template?: string;
+}
+
+/**
+ * The folder of the framework checkout holding library templates, one subfolder each.
+ */
+const TEMPLATES_FOLDER = path.join('templates', 'library');
+
+interface TemplateItem extends vscode.QuickPickItem {
+  template?: string;
+  browse?: boolean;
+}
+
+/**
+ * Walks through the creation of a library: its name, type, dependencies, the sections that
+ * should depend on it and an optional template. Every answer is validated as it is given,
+ * so the returned plan can be applied as is.
+ * @param projectRoot The folder containing config.ini.
+ * @param frameworkRoot The framework checkout, searched for templates.
+ * @param graph The dependency graph of the application and the existing libraries.
+ * @returns The plan, or undefined if the wizard was dismissed.
+ */
+export async function runLibraryWizard(
+  projectRoot: string,
+  frameworkRoot: string,
+  graph: DependencyGraph
+): Promise<LibraryPlan | undefined> {
+  const libraries = [...graph.keys()].filter((node) => node !== APPLICATION_NODE);
+  const plan: LibraryPlan = { name: '', type: LIBRARY_TYPES[0], dependencies: [], dependents: [] };
+
+  const steps = [
+    async (input: MultiStepInput) => {
+      plan.name = (
+        await input.showInputBox({
+          prompt: 'Enter the name of the new library',
+          value: plan.name,
+          validate: (value) => validateLibraryName(value, projectRoot, libraries),
+        })
+      ).trim();
+    },
+    async (input: MultiStepInput) => {
+      const items = LIBRARY_TYPES.map((type) => ({ label: type }));
+      const picked = await input.showQuickPick({
+        placeholder: 'Select the library type',
+        items,
+        selected: items.filter((item) => item.label === plan.type),
+      });
+      plan.type = picked.label;
+    },
+    async (input: MultiStepInput) => {
+      const items = libraries.map((library) => ({ label: library }));
+      const picked = await input.showMultiPick({
+        placeholder: `Select the libraries '${plan.name}' depends on (optional)`,
+        items,
+        selected: items.filter((item) => plan.dependencies.includes(item.label)),
+      });
+      plan.dependencies = picked.map((item) => item.label);
+    },
+    async (input: MultiStepInput) => {
+      // Sections the new library depends on, directly or not, cannot depend on it
+      const withLibrary: DependencyGraph = new Map([...graph, [plan.name, plan.dependencies]]);
+      const items = [...graph.keys()]
+        .filter((node) => !findCycleFromEdge(withLibrary, node, plan.name))
+        .map((node) => ({ label: nodeToSection(node) }));
+      const picked = await input.showMultiPick({
+        placeholder: `Select the sections that should depend on '${plan.name}' (optional)`,
+        items,
+        selected: items.filter((item) => plan.dependents.includes(item.label)),
+      });
+      plan.dependents = picked.map((item) => item.label);
+    },
+    async (input: MultiStepInput) => {
+      const items: TemplateItem[] = [
+        { label: 'No template', description: 'Keep the sources created by setup.py' },
+        ...listTemplates(frameworkRoot).map((template) => ({
+          label: path.basename(template),
+          description: path.relative(frameworkRoot, template),
+          template,
+        })),
+        { label: 'Choose Folder...', description: 'Copy the files of another folder', browse: true },
+      ];
+      const current = items.find((item) => item.template === plan.template) ?? items[0];
+      const picked = await input.showQuickPick({
+        placeholder: 'Select a template for the library sources',
+        items,
+        selected: [current],
+      });
+
+      if (!picked.browse) {
+        plan.template = picked.template;
+        return;
+      }
+      const folders = await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        defaultUri: vscode.Uri.file(projectRoot),
+        openLabel: 'Use as Template',
+      });
+      plan.template = folders?.[0]?.fsPath;
+    },
+  ];
+
+  return (await MultiStepInput.run('Add Library', steps)) ? plan : undefined;
+}
+
+/**
+ * Checks the name of a new library.
+ * @param libraries The existing libraries.
+ */
+function validateLibraryName(value: string, projectRoot: string, libraries: string[]): string | undefined {
+  const name = value.trim();
+  if (name === '') {
+    return 'Library name cannot be empty.';
+  }
+  if (!LIBRARY_NAME_PATTERN.test(name)) {
+    return 'Library name can only contain letters, numbers, underscores, and hyphens.';
+  }
+  if (name === APPLICATION_NODE || libraries.includes(name)) {
+    return `Library '${name}' already exists.`;
+  }
+  if (fs.existsSync(path.join(projectRoot, name))) {
+    return `The folder '${name}' already exists in the project.`;
+  }
+  return undefined;
+}
+
+/**
+ * Returns the library templates of the framework checkout.
+ */
+function listTemplates(frameworkRoot: string): string[] {
+  const templatesRoot = path.join(frameworkRoot, TEMPLATES_FOLDER);
+  try {
+    return fs
+      .readdirSync(templatesRoot, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => path.join(templatesRoot, entry.name));
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,180 @@
+import * as vscode from 'vscode';
+
+/**
+ * A step of a wizard. It asks its question through the MultiStepInput and stores the
+ * answer in the wizard's state, so the answer is shown again when the user comes back.
+ */
+export type InputStep = (input: MultiStepInput) => Promise<void>;
+
+/**
+ * Options of MultiStepInput.showInputBox.
+ */
+export interface InputBoxOptions {
+  prompt: string;
+  value?: string;
+  placeholder?: string;
+  /** Returns the problem with a value, checked on every keystroke and before accepting. */
+  validate?: (value: string) => string | undefined;
+}
+
+/**
+ * Options of MultiStepInput.showQuickPick and MultiStepInput.showMultiPick.
+ */
+export interface QuickPickOptions<T extends vscode.QuickPickItem> {
+  placeholder: string;
+  items: T[];
+  /** The items selected or active when the step is shown. */
+  selected?: T[];
+}
+
+/**
+ * Thrown from a step when the user goes back to the previous one.
+ */
+const BACK = Symbol('back');
+
+/**
+ * Thrown from a step when the user dismisses the wizard.
+ */
+const CANCEL = Symbol('cancel');
+
+/**
+ * MultiStepInput shows a sequence of input boxes and quick picks in a single QuickInput
+ * with a step counter and a Back button. Dismissing any step cancels the whole wizard.
+ */
+export class MultiStepInput {
+  private current: vscode.QuickInput | undefined;
+  private index = 0;
+
+  private constructor(
+    private title: string,
+    private totalSteps: number
+  ) {}
+
+  /**
+   * Runs the steps of a wizard in order.
+   * @param title The title shown above every step.
+   * @param steps The steps. Steps that do not apply should be left out rather than skipped.
+   * @returns Whether every step was completed.
+   */
+  static async run(title: string, steps: InputStep[]): Promise<boolean> {
+    const input = new MultiStepInput(title, steps.length);
+    try {
+      while (input.index < steps.length) {
+        try {
+          await steps[input.index](input);
+          input.index++;
+        } catch (error) {
+          if (error !== BACK) {
+            throw error;
+          }
+          input.index = Math.max(0, input.index - 1);
+        }
+      }
+      return true;
+    } catch (error) {
+      if (error === CANCEL) {
+        return false;
+      }
+      throw error;
+    } finally {
+      input.current?.dispose();
+    }
+  }
+
+  /**
+   * Asks for a text value.
+   */
+  showInputBox(options: InputBoxOptions): Promise<string> {
+    const inputBox = vscode.window.createInputBox();
+    inputBox.prompt = options.prompt;
+    inputBox.value = options.value ?? '';
+    inputBox.placeholder = options.placeholder;
+    inputBox.validationMessage = inputBox.value === '' ? undefined : options.validate?.(inputBox.value);
+
+    return this.show<string>(inputBox, (resolve) => [
+      inputBox.onDidChangeValue((value) => {
+        inputBox.validationMessage = options.validate?.(value);
+      }),
+      inputBox.onDidAccept(() => {
+        const problem = options.validate?.(inputBox.value);
+        if (problem) {
+          inputBox.validationMessage = problem;
+          return;
+        }
+        resolve(inputBox.value);
+      }),
+    ]);
+  }
+
+  /**
+   * Asks to pick one item.
+   */
+  showQuickPick<T extends vscode.QuickPickItem>(options: QuickPickOptions<T>): Promise<T> {
+    const quickPick = this.createQuickPick(options);
+    if (options.selected) {
+      quickPick.activeItems = options.selected;
+    }
+
+    return this.show<T>(quickPick, (resolve) => [
+      quickPick.onDidAccept(() => {
+        if (quickPick.selectedItems.length > 0) {
+          resolve(quickPick.selectedItems[0]);
+        }
+      }),
+    ]);
+  }
+
+  /**
+   * Asks to pick any number of items, none included.
+   */
+  showMultiPick<T extends vscode.QuickPickItem>(options: QuickPickOptions<T>): Promise<T[]> {
+    const quickPick = this.createQuickPick(options);
+    quickPick.canSelectMany = true;
+    if (options.selected) {
+      quickPick.selectedItems = options.selected;
+    }
+
+    return this.show<T[]>(quickPick, (resolve) => [
+      quickPick.onDidAccept(() => resolve([...quickPick.selectedItems])),
+    ]);
+  }
+
+  private createQuickPick<T extends vscode.QuickPickItem>(options: QuickPickOptions<T>): vscode.QuickPick<T> {
+    const quickPick = vscode.window.createQuickPick<T>();
+    quickPick.placeholder = options.placeholder;
+    quickPick.items = options.items;
+    quickPick.matchOnDescription = true;
+    return quickPick;
+  }
+
+  /**
+   * Shows the input of the current step in place of the previous one and waits for an answer.
+   * @param listen Registers the listeners that resolve the step.
+   */
+  private show<R>(
+    input: vscode.InputBox | vscode.QuickPick<any>,
+    listen: (resolve: (value: R) => void) => vscode.Disposable[]
+  ): Promise<R> {
+    input.title = this.title;
+    input.step = this.index + 1;
+    input.totalSteps = this.totalSteps;
+    input.ignoreFocusOut = true;
+    input.buttons = this.index > 0 ? [vscode.QuickInputButtons.Back] : [];
+
+    const disposables: vscode.Disposable[] = [];
+    return new Promise<R>((resolve, reject) => {
+      disposables.push(
+        input.onDidTriggerButton((button) => {
+          if (button === vscode.QuickInputButtons.Back) {
+            reject(BACK);
+          }
+        }),
+        input.onDidHide(() => reject(CANCEL)),
+        ...listen(resolve)
+      );
+      this.current?.dispose();
+      this.current = input;
+      input.show();
+    }).finally(() => disposables.forEach((d) => d.dispose()));
+  }
+}
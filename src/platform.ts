@@ -0,0 +1,194 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * The platforms the Miracle Framework scripts build for.
+ */
+export const MIRACLE_PLATFORMS = ['windows', 'linux'];
+
+/**
+ * A set of compilers that can build for a platform. Every command must be on the PATH.
+ */
+interface Toolchain {
+  name: string;
+  commands: string[];
+}
+
+/**
+ * The toolchains that can build for each target platform, by host platform. A missing
+ * entry means the target cannot be built from that host at all.
+ */
+const TOOLCHAINS: Record<string, Record<string, Toolchain[]>> = {
+  linux: {
+    linux: [
+      { name: 'GCC', commands: ['gcc', 'g++'] },
+      { name: 'Clang', commands: ['clang', 'clang++'] },
+    ],
+    windows: [{ name: 'MinGW-w64', commands: ['x86_64-w64-mingw32-gcc', 'x86_64-w64-mingw32-g++'] }],
+  },
+  windows: {
+    windows: [
+      { name: 'MSVC', commands: ['cl'] },
+      { name: 'MinGW-w64', commands: ['gcc', 'g++'] },
+      { name: 'Clang', commands: ['clang', 'clang++'] },
+    ],
+  },
+};
+
+/**
+ * Whether a platform can be built for from this machine, and why not if it cannot.
+ */
+export interface PlatformStatus {
+  platform: string;
+  buildable: boolean;
+  /** The toolchain that was found. */
+  toolchain?: string;
+  /** Why the platform cannot be built for. */
+  problem?: string;
+}
+
+/**
+ * Returns the Miracle platform of this machine, or undefined on hosts the framework does not
+ * build on.
+ */
+export function getHostPlatform(): string | undefined {
+  switch (process.platform) {
+    case 'win32':
+      return 'windows';
+    case 'linux':
+      return 'linux';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Checks whether the toolchain needed to build for a platform is installed. Hosts the
+ * framework does not know are not checked.
+ * @param platform The target platform.
+ */
+export function getPlatformStatus(platform: string): PlatformStatus {
+  const host = getHostPlatform();
+  if (!host) {
+    return { platform, buildable: true };
+  }
+
+  const toolchains = TOOLCHAINS[host][platform];
+  if (!toolchains) {
+    return { platform, buildable: false, problem: `Building for ${platform} is not supported on ${host}.` };
+  }
+
+  const found = toolchains.find((toolchain) => toolchain.commands.every((command) => findExecutable(command)));
+  if (found) {
+    return { platform, buildable: true, toolchain: found.name };
+  }
+
+  const options = toolchains.map((toolchain) => `${toolchain.name} (${toolchain.commands.join(', ')})`).join(' or ');
+  return { platform, buildable: false, problem: `No ${platform} toolchain found. Install ${options}.` };
+}
+
+/**
+ * Returns the compiler commands of the first installed toolchain that builds for a platform,
+ * e.g. ['gcc', 'g++'] or ['cl'].
+ * @param platform The target platform.
+ */
+export function findCompilers(platform: string): string[] | undefined {
+  const host = getHostPlatform();
+  const toolchains = host ? TOOLCHAINS[host][platform] : undefined;
+  return toolchains?.find((toolchain) => toolchain.commands.every((command) => findExecutable(command)))?.commands;
+}
+
+/**
+ * Returns the platforms that can be built for from this machine, the host first.
+ */
+export function getBuildablePlatforms(): string[] {
+  const host = getHostPlatform();
+  return MIRACLE_PLATFORMS.filter((platform) => getPlatformStatus(platform).buildable).sort(
+    (a, b) => Number(b === host) - Number(a === host)
+  );
+}
+
+/**
+ * Reports a missing toolchain before a build is launched.
+ * @param platform The target platform.
+ * @returns Whether the build can go ahead.
+ */
+export function ensureToolchain(platform: string): boolean {
+  const status = getPlatformStatus(platform);
+  if (!status.buildable) {
+    vscode.window.showErrorMessage(`Cannot build for ${platform}: ${status.problem}`);
+  }
+  return status.buildable;
+}
+
+/**
+ * Asks for the platform to build for, offering only the platforms that can be built from
+ * this machine. No question is asked when there is only one.
+ * @param placeHolder The prompt of the quick pick.
+ */
+export async function pickPlatform(placeHolder: string): Promise<string | undefined> {
+  const platforms = getBuildablePlatforms();
+  if (platforms.length === 0) {
+    const host = getHostPlatform() ?? 'linux';
+    vscode.window.showErrorMessage(`Cannot build on this machine: ${getPlatformStatus(host).problem}`);
+    return undefined;
+  }
+  if (platforms.length === 1) {
+    return platforms[0];
+  }
+
+  const host = getHostPlatform();
+  const picked = await vscode.window.showQuickPick(
+    platforms.map((platform) => ({
+      label: platform,
+      description: [platform === host ? 'host' : 'cross', getPlatformStatus(platform).toolchain].join(' · '),
+    })),
+    { placeHolder }
+  );
+  return picked?.label;
+}
+
+/**
+ * Returns whether a platform can be built for from this machine given the right toolchain.
+ */
+export function isPlatformSupported(platform: string): boolean {
+  const host = getHostPlatform();
+  return !host || TOOLCHAINS[host][platform] !== undefined;
+}
+
+/**
+ * Returns the command a Windows executable is run with on another host, as configured in
+ * miracle.run.windowsRunner, or undefined when it runs natively. An empty string means no
+ * runner is configured.
+ */
+export function getWindowsRunner(platform: string): string | undefined {
+  if (platform !== 'windows' || getHostPlatform() === 'windows') {
+    return undefined;
+  }
+  return vscode.workspace.getConfiguration('miracle.run').get<string>('windowsRunner', '');
+}
+
+/**
+ * Looks up a command on the PATH, trying the PATHEXT extensions on Windows.
+ * @returns The absolute path of the command, or undefined if it is not found.
+ */
+export function findExecutable(command: string): string | undefined {
+  const extensions = process.platform === 'win32' ? (process.env.PATHEXT ?? '.EXE;.CMD;.BAT').split(';') : [''];
+  for (const dir of (process.env.PATH ?? '').split(path.delimiter)) {
+    if (dir === '') {
+      continue;
+    }
+    for (const extension of extensions) {
+      const candidate = path.join(dir, command + extension);
+      try {
+        if (fs.statSync(candidate).isFile()) {
+          return candidate;
+        }
+      } catch {
+        // Not in this folder
+      }
+    }
+  }
+  return undefined;
+}
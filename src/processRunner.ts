@@ -0,0 +1,280 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ChildProcess, spawn } from 'child_process';
+import { BuildLog } from './buildLog';
+
+/**
+ * How a process run through runProcess ended.
+ */
+export interface ProcessResult {
+  /** The exit code, 1 if the process was killed by a signal. */
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+  /** Milliseconds between spawning the process and its exit. */
+  duration: number;
+  /** Whether the process was stopped through the cancellation token. */
+  cancelled: boolean;
+}
+
+/**
+ * Options of runProcess.
+ */
+export interface ProcessOptions {
+  cwd: string;
+  /** Stops the process and every process it started when cancellation is requested. */
+  token?: vscode.CancellationToken;
+  /** Receives stdout and stderr as they are produced. */
+  onOutput?: (text: string) => void;
+  /** Called once the process has been spawned. */
+  onSpawn?: () => void;
+  /** Records the invocation, its output and its exit. */
+  log?: BuildLog;
+}
+
+/**
+ * The processes started through runProcess that have not exited yet.
+ */
+const runningProcesses = new Set<ChildProcess>();
+
+/**
+ * Runs a command with an argument array. No shell is involved, so arguments such as project
+ * names are passed to the process exactly as given, whatever characters they contain.
+ * @param command The executable to run.
+ * @param args The arguments passed to the executable.
+ * @returns The outcome of the process. Rejects only if the process could not be started.
+ */
+export function runProcess(command: string, args: string[], options: ProcessOptions): Promise<ProcessResult> {
+  return new Promise<ProcessResult>((resolve, reject) => {
+    const startTime = Date.now();
+    let stdout = '';
+    let stderr = '';
+    let cancelled = false;
+    let partialLine = '';
+    // A process that fails to start emits 'close' after 'error', it is reported only once
+    let settled = false;
+
+    const logEntry = options.log?.start(command, args, options.cwd);
+    const logOutput = (text: string) => {
+      const lines = (partialLine + text).split(/\r?\n/);
+      partialLine = lines.pop() ?? '';
+      lines.forEach((line) => logEntry?.line(line));
+    };
+
+    // On POSIX the process leads its own process group, so the whole tree can be stopped
+    const child = spawn(command, args, {
+      cwd: options.cwd,
+      shell: false,
+      windowsHide: true,
+      detached: process.platform !== 'win32',
+    });
+    runningProcesses.add(child);
+    child.on('spawn', () => options.onSpawn?.());
+
+    const cancellation = options.token?.onCancellationRequested(() => {
+      cancelled = true;
+      killProcessTree(child);
+    });
+
+    child.stdout.on('data', (data: Buffer) => {
+      const text = data.toString();
+      stdout += text;
+      logOutput(text);
+      options.onOutput?.(text);
+    });
+    child.stderr.on('data', (data: Buffer) => {
+      const text = data.toString();
+      stderr += text;
+      logOutput(text);
+      options.onOutput?.(text);
+    });
+
+    child.on('error', (err) => {
+      runningProcesses.delete(child);
+      cancellation?.dispose();
+      if (settled) {
+        return;
+      }
+      settled = true;
+      logEntry?.line(err.message);
+      logEntry?.finish(1, 0, 0);
+      reject(new Error(`Failed to start ${command}: ${err.message}`));
+    });
+    child.on('close', (code) => {
+      runningProcesses.delete(child);
+      cancellation?.dispose();
+      if (settled) {
+        return;
+      }
+      settled = true;
+      if (partialLine) {
+        logEntry?.line(partialLine);
+      }
+      logEntry?.finish(code ?? 1, 0, 0, cancelled);
+      resolve({ exitCode: code ?? 1, stdout, stderr, duration: Date.now() - startTime, cancelled });
+    });
+
+    if (options.token?.isCancellationRequested) {
+      cancelled = true;
+      killProcessTree(child);
+    }
+  });
+}
+
+/**
+ * Milliseconds a stopped process tree is given to exit before it is killed forcibly.
+ */
+const KILL_GRACE_PERIOD = 3000;
+
+/**
+ * Stops a process and every process it started, such as the compilers of a build or the
+ * executable started by run.py. On POSIX the process group is sent SIGTERM, then SIGKILL if
+ * it is still running after a grace period; on Windows taskkill ends the tree.
+ */
+export function killProcessTree(child: ChildProcess) {
+  const pid = child.pid;
+  if (pid === undefined || child.exitCode !== null || child.signalCode !== null) {
+    return;
+  }
+
+  if (process.platform === 'win32') {
+    spawn('taskkill', ['/pid', String(pid), '/T', '/F'], { windowsHide: true }).on('error', () => child.kill());
+    return;
+  }
+
+  const signalGroup = (signal: NodeJS.Signals) => {
+    try {
+      process.kill(-pid, signal);
+    } catch {
+      // The group is gone, or the process is not a group leader
+      if (child.exitCode === null && child.signalCode === null) {
+        child.kill(signal);
+      }
+    }
+  };
+  signalGroup('SIGTERM');
+  // Processes of the tree may outlive the one that was started, so the group is killed either way
+  setTimeout(() => signalGroup('SIGKILL'), KILL_GRACE_PERIOD);
+}
+
+/**
+ * Stops every process started through runProcess together with the processes they started,
+ * as they run in their own process group and would outlive the extension host.
+ * @returns Resolves once they have exited, or after the grace period they are given.
+ */
+export function stopAllProcesses(): Promise<void> {
+  const children = [...runningProcesses];
+  const exited = children.map(
+    (child) => new Promise<void>((resolve) => (child.exitCode !== null ? resolve() : child.once('close', () => resolve())))
+  );
+  children.forEach(killProcessTree);
+  return Promise.race([
+    Promise.all(exited).then(() => undefined),
+    new Promise<void>((resolve) => setTimeout(resolve, KILL_GRACE_PERIOD + 100)),
+  ]);
+}
+
+/**
+ * The quoting rules of the shells a command line may be pasted into.
+ */
+export type ShellKind = 'posix' | 'powershell' | 'cmd';
+
+/**
+ * Returns the quoting rules of a shell, by default the integrated terminal's.
+ * @param shell The path of the shell executable.
+ */
+export function getShellKind(shell: string = vscode.env.shell): ShellKind {
+  const name = path.basename(shell).toLowerCase();
+  if (name.startsWith('pwsh') || name.startsWith('powershell')) {
+    return 'powershell';
+  }
+  if (name === 'cmd' || name === 'cmd.exe') {
+    return 'cmd';
+  }
+  return 'posix';
+}
+
+/**
+ * Quotes an argument so that a shell passes it to the command unchanged.
+ * @param arg The argument.
+ * @param kind The shell the command line is meant for.
+ */
+export function quoteShellArgument(arg: string, kind: ShellKind): string {
+  if (/^[\w@%+=:,./\\-]+$/.test(arg) && !(kind === 'cmd' && arg.includes('%'))) {
+    return arg;
+  }
+
+  switch (kind) {
+    case 'posix':
+      return `'${arg.replace(/'/g, `'\\''`)}'`;
+    case 'powershell':
+      return `'${arg.replace(/'/g, "''")}'`;
+    case 'cmd':
+      // Backslashes before a quote are doubled for the C runtime, and '%' is escaped outside
+      // the quotes since cmd expands variables inside them
+      return `"${arg.replace(/(\\*)"/g, '$1$1""').replace(/(\\+)$/, '$1$1').replace(/%/g, '"^%"')}"`;
+  }
+}
+
+/**
+ * Formats a command and its arguments as a command line for a shell, e.g. to echo it in a
+ * terminal or to run it where only a command line is accepted.
+ * @param kind The shell the command line is meant for, by default the integrated terminal's.
+ */
+export function formatCommandLine(command: string, args: string[], kind: ShellKind = getShellKind()): string {
+  const quotedCommand = quoteShellArgument(command, kind);
+  // PowerShell treats a quoted string as a value rather than a command unless it is invoked with '&'
+  const prefix = kind === 'powershell' && quotedCommand !== command ? '& ' : '';
+  return prefix + [quotedCommand, ...args.map((arg) => quoteShellArgument(arg, kind))].join(' ');
+}
+
+/**
+ * Splits a command line typed by the user into arguments, following the quoting rules of
+ * POSIX shells: single quotes keep everything literally, double quotes keep spaces, and a
+ * backslash escapes a quote, a space or another backslash. Backslashes before anything else
+ * are kept, so that Windows paths need no escaping.
+ * @returns The arguments, or undefined if a quote is not closed.
+ */
+export function splitShellArguments(commandLine: string): string[] | undefined {
+  const args: string[] = [];
+  let current: string | undefined;
+  let quote: "'" | '"' | undefined;
+
+  for (let i = 0; i < commandLine.length; i++) {
+    const char = commandLine[i];
+    if (quote === "'") {
+      if (char === "'") {
+        quote = undefined;
+      } else {
+        current += char;
+      }
+    } else if (char === '\\' && (quote === '"' ? /["\\]/ : /[\s'"\\]/).test(commandLine[i + 1] ?? '')) {
+      // Inside double quotes only a quote or a backslash is escaped
+      current = (current ?? '') + commandLine[++i];
+    } else if (quote === '"') {
+      if (char === '"') {
+        quote = undefined;
+      } else {
+        current += char;
+      }
+    } else if (char === "'" || char === '"') {
+      quote = char;
+      current = current ?? '';
+    } else if (/\s/.test(char)) {
+      if (current !== undefined) {
+        args.push(current);
+        current = undefined;
+      }
+    } else {
+      current = (current ?? '') + char;
+    }
+  }
+
+  if (quote) {
+    return undefined;
+  }
+  if (current !== undefined) {
+    args.push(current);
+  }
+  return args;
+}
@@ -0,0 +1,480 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BuildLog } from './buildLog';
+import { getFrameworkPath, resolvePythonInterpreter, resolveScript } from './interpreter';
+import { MultiStepInput } from './multiStepInput';
+import { ProcessResult, runProcess } from './processRunner';
+
+/**
+ * The repository the framework is added from by default.
+ */
+export const DEFAULT_FRAMEWORK_URL = 'https://github.com/freshbreathmint/miracle';
+
+/**
+ * Where the framework is added from: a URL, a working clone or a bare mirror on this machine.
+ */
+export type FrameworkSourceKind = 'remote' | 'local' | 'mirror';
+
+/**
+ * The answers of the project setup wizard.
+ */
+export interface SetupPlan {
+  sourceKind: FrameworkSourceKind;
+  /** The URL or absolute path of the framework repository. */
+  source: string;
+  /** The branch, tag or commit to check out, the default branch if empty. */
+  ref: string;
+  /** Whether the framework is added as a git submodule rather than copied. */
+  submodule: boolean;
+  projectName: string;
+}
+
+/**
+ * The branches and tags of a framework repository, as listed by git ls-remote.
+ */
+export interface FrameworkRefs {
+  branches: string[];
+  tags: string[];
+}
+
+const SOURCE_KINDS: { label: string; description: string; sourceKind: FrameworkSourceKind }[] = [
+  { label: 'Remote Repository', description: 'Clone the framework from a URL', sourceKind: 'remote' },
+  { label: 'Local Clone', description: 'Use a clone of the framework on this machine', sourceKind: 'local' },
+  { label: 'Local Bare Mirror', description: 'Use a bare mirror, e.g. for offline setups', sourceKind: 'mirror' },
+];
+
+/**
+ * How long listing the branches and tags of a source may take before the ref is asked for
+ * without them.
+ */
+const LIST_REFS_TIMEOUT = 15000;
+
+/**
+ * Sets up a Miracle project in a workspace folder. A wizard asks where the framework comes
+ * from, the version to pin, whether to add it as a submodule or a plain copy, and the project
+ * name. After confirmation, git is initialized if needed, the framework is added, setup.py
+ * creates the application and the workspace file it produced is opened.
+ * @param log The log the git and setup.py invocations are recorded in.
+ * @returns Whether the project was set up.
+ */
+export async function setupProject(log: BuildLog): Promise<boolean> {
+  // Get the workspace folder to set up, asking when there are several
+  const workspaceFolders = vscode.workspace.workspaceFolders;
+  if (!workspaceFolders || workspaceFolders.length === 0) {
+    vscode.window.showErrorMessage('No workspace folder is open.');
+    return false;
+  }
+  const folder =
+    workspaceFolders.length === 1
+      ? workspaceFolders[0]
+      : await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Select the folder to set up a Miracle project in' });
+  if (!folder) {
+    return false;
+  }
+
+  const projectRoot = folder.uri.fsPath;
+  const frameworkRoot = getFrameworkPath(projectRoot);
+  const frameworkExists = fs.existsSync(frameworkRoot);
+
+  const gitFound = await isGitInstalled(projectRoot);
+  if (!gitFound && !frameworkExists) {
+    vscode.window.showErrorMessage('Git is not installed or not available in PATH.');
+    return false;
+  }
+
+  const plan = await runSetupWizard(projectRoot, frameworkExists);
+  if (!plan) {
+    return false;
+  }
+
+  // List the changes before anything is done
+  const needsGitInit = gitFound && !(await isInsideGitRepository(projectRoot));
+  const frameworkFolder = path.relative(projectRoot, frameworkRoot).split(path.sep).join('/');
+  const version = plan.ref === '' ? 'the default branch' : `'${plan.ref}'`;
+  const changes = [
+    ...(needsGitInit ? [`Initialize a git repository in ${projectRoot}.`] : []),
+    frameworkExists
+      ? `Use the framework already in ${frameworkFolder}.`
+      : plan.submodule
+        ? `Add ${plan.source} at ${version} as the submodule ${frameworkFolder}.`
+        : `Copy ${plan.source} at ${version} to ${frameworkFolder}.`,
+    `Run setup.py to create the application '${plan.projectName}'.`,
+    'Open the workspace file created by setup.py.',
+  ];
+  const choice = await vscode.window.showInformationMessage(
+    `Set up a Miracle project in ${folder.name}?`,
+    { modal: true, detail: changes.join('\n') },
+    'Set Up'
+  );
+  if (choice !== 'Set Up') {
+    return false;
+  }
+
+  const runStep = (title: string, command: string, args: string[], cwd: string) =>
+    runSetupStep(log, title, command, args, cwd);
+
+  if (needsGitInit && !(await runStep('Initializing a git repository...', 'git', ['init'], projectRoot))) {
+    return false;
+  }
+  if (!frameworkExists && !(await addFramework(plan, projectRoot, frameworkRoot, runStep))) {
+    return false;
+  }
+
+  const setupScript = resolveScript(frameworkRoot, 'setup.py');
+  const pythonCommand = setupScript && (await resolvePythonInterpreter(folder.uri, log));
+  if (!setupScript || !pythonCommand) {
+    return false;
+  }
+
+  // The workspace file is recognized by comparing the folders setup.py may write it to
+  const searchFolders = [projectRoot, path.dirname(projectRoot), frameworkRoot];
+  const before = findWorkspaceFiles(searchFolders);
+  const result = await runStep(
+    'Running setup.py...',
+    pythonCommand,
+    [setupScript, 'application', plan.projectName],
+    frameworkRoot
+  );
+  if (!result) {
+    return false;
+  }
+
+  const workspaceFile = findCreatedWorkspaceFile(result, frameworkRoot, before, findWorkspaceFiles(searchFolders));
+  if (!workspaceFile) {
+    vscode.window.showWarningMessage(
+      `Project '${plan.projectName}' was set up, but setup.py did not create a .code-workspace file.`
+    );
+    return true;
+  }
+
+  vscode.window.showInformationMessage(`Project '${plan.projectName}' was set up. Opening ${workspaceFile}.`);
+  await vscode.commands.executeCommand('vscode.openFolder', vscode.Uri.file(workspaceFile));
+  return true;
+}
+
+/**
+ * Asks for the framework source, the version to pin, how to add the framework and the
+ * project name. Only the project name is asked when the framework is already there.
+ */
+async function runSetupWizard(projectRoot: string, frameworkExists: boolean): Promise<SetupPlan | undefined> {
+  const plan: SetupPlan = { sourceKind: 'remote', source: DEFAULT_FRAMEWORK_URL, ref: '', submodule: true, projectName: '' };
+  const knownRefs = new Map<string, FrameworkRefs | undefined>();
+
+  const sourceSteps = [
+    async (input: MultiStepInput) => {
+      const picked = await input.showQuickPick({
+        placeholder: 'Where should the Miracle Framework come from?',
+        items: SOURCE_KINDS,
+        selected: SOURCE_KINDS.filter((item) => item.sourceKind === plan.sourceKind),
+      });
+      if (picked.sourceKind !== plan.sourceKind) {
+        plan.sourceKind = picked.sourceKind;
+        plan.source = picked.sourceKind === 'remote' ? DEFAULT_FRAMEWORK_URL : '';
+      }
+    },
+    async (input: MultiStepInput) => {
+      const value = await input.showInputBox({
+        prompt:
+          plan.sourceKind === 'remote'
+            ? 'Enter the URL of the framework repository'
+            : `Enter the path of the framework ${plan.sourceKind === 'mirror' ? 'mirror' : 'clone'}`,
+        value: plan.source,
+        validate: (source) => validateSource(plan.sourceKind, source.trim(), projectRoot),
+      });
+      plan.source = plan.sourceKind === 'remote' ? value.trim() : path.resolve(projectRoot, value.trim());
+    },
+    async (input: MultiStepInput) => {
+      if (!knownRefs.has(plan.source)) {
+        knownRefs.set(plan.source, await listRefs(plan.source, projectRoot));
+      }
+      const refs = knownRefs.get(plan.source);
+      plan.ref = (
+        await input.showInputBox({
+          prompt: 'Enter the branch, tag or commit to pin, or leave empty for the default branch',
+          value: plan.ref,
+          placeholder: refs && refs.tags.length > 0 ? `e.g. ${refs.tags[refs.tags.length - 1]}` : 'e.g. main',
+          validate: (ref) => validateRef(ref.trim(), refs),
+        })
+      ).trim();
+    },
+    async (input: MultiStepInput) => {
+      const items = [
+        { label: 'Submodule', description: 'Record the framework as a git submodule', submodule: true },
+        { label: 'Copy', description: 'Copy the framework files without git history', submodule: false },
+      ];
+      const picked = await input.showQuickPick({
+        placeholder: 'How should the framework be added to the project?',
+        items,
+        selected: items.filter((item) => item.submodule === plan.submodule),
+      });
+      plan.submodule = picked.submodule;
+    },
+  ];
+
+  const nameStep = async (input: MultiStepInput) => {
+    plan.projectName = (
+      await input.showInputBox({
+        prompt: 'Enter the name of your project',
+        value: plan.projectName,
+        placeholder: 'Project Name',
+        validate: (value) => (value.trim() === '' ? 'Project name cannot be empty.' : undefined),
+      })
+    ).trim();
+  };
+
+  const steps = frameworkExists ? [nameStep] : [...sourceSteps, nameStep];
+  return (await MultiStepInput.run('Set Up Miracle Project', steps)) ? plan : undefined;
+}
+
+/**
+ * Adds the framework to the project as a submodule or a plain copy, checked out at the
+ * pinned ref.
+ * @param runStep Runs a git command, returning undefined if it failed.
+ * @returns Whether the framework was added.
+ */
+export async function addFramework(
+  plan: SetupPlan,
+  projectRoot: string,
+  frameworkRoot: string,
+  runStep: (title: string, command: string, args: string[], cwd: string) => Promise<ProcessResult | undefined>
+): Promise<boolean> {
+  const frameworkFolder = path.relative(projectRoot, frameworkRoot).split(path.sep).join('/');
+  const refs = plan.ref === '' ? undefined : await listRefs(plan.source, projectRoot);
+  const isBranch = refs?.branches.includes(plan.ref) ?? false;
+
+  if (plan.submodule) {
+    // Git refuses local submodule sources unless the file protocol is allowed explicitly
+    const allowFile = plan.sourceKind === 'remote' ? [] : ['-c', 'protocol.file.allow=always'];
+    const branch = isBranch ? ['-b', plan.ref] : [];
+    const hadGitmodules = fs.existsSync(path.join(projectRoot, '.gitmodules'));
+    const added = await runStep(
+      'Adding the framework as a git submodule...',
+      'git',
+      [...allowFile, 'submodule', 'add', ...branch, '--', plan.source, frameworkFolder],
+      projectRoot
+    );
+    if (!added) {
+      return false;
+    }
+    if (plan.ref !== '' && !isBranch) {
+      // Tags and commits are pinned by recording the checked out commit in the superproject
+      const pinned =
+        (await runStep(`Checking out ${plan.ref}...`, 'git', ['checkout', '--detach', plan.ref], frameworkRoot)) !==
+          undefined &&
+        (await runStep('Recording the pinned framework version...', 'git', ['add', '--', frameworkFolder], projectRoot)) !==
+          undefined;
+      if (!pinned) {
+        await removeSubmodule(projectRoot, frameworkFolder, hadGitmodules, runStep);
+      }
+      return pinned;
+    }
+    return true;
+  }
+
+  // Branches and tags are cloned directly, commits are checked out after cloning
+  const cloneRef = plan.ref !== '' && refs && (isBranch || refs.tags.includes(plan.ref)) ? ['--branch', plan.ref] : [];
+  const cloned = await runStep(
+    'Copying the framework...',
+    'git',
+    ['clone', ...cloneRef, '--', plan.source, frameworkRoot],
+    projectRoot
+  );
+  if (!cloned) {
+    return false;
+  }
+  if (plan.ref !== '' && cloneRef.length === 0) {
+    const checkedOut = await runStep(`Checking out ${plan.ref}...`, 'git', ['checkout', '--detach', plan.ref], frameworkRoot);
+    if (!checkedOut) {
+      fs.rmSync(frameworkRoot, { recursive: true, force: true });
+      return false;
+    }
+  }
+  fs.rmSync(path.join(frameworkRoot, '.git'), { recursive: true, force: true });
+  return true;
+}
+
+/**
+ * Removes a submodule that was added but could not be pinned, leaving the project as it was
+ * before: the gitlink, its .gitmodules entry, the folder and the repository under .git/modules.
+ * @param hadGitmodules Whether .gitmodules existed before the submodule was added.
+ */
+async function removeSubmodule(
+  projectRoot: string,
+  frameworkFolder: string,
+  hadGitmodules: boolean,
+  runStep: (title: string, command: string, args: string[], cwd: string) => Promise<ProcessResult | undefined>
+) {
+  const title = 'Removing the framework submodule...';
+  await runStep(title, 'git', ['submodule', 'deinit', '-f', '--', frameworkFolder], projectRoot);
+  // Removing the gitlink from the worktree too also drops its .gitmodules entry
+  await runStep(title, 'git', ['rm', '-f', '--', frameworkFolder], projectRoot);
+  fs.rmSync(path.join(projectRoot, '.git', 'modules', ...frameworkFolder.split('/')), { recursive: true, force: true });
+  fs.rmSync(path.join(projectRoot, ...frameworkFolder.split('/')), { recursive: true, force: true });
+
+  const gitmodules = path.join(projectRoot, '.gitmodules');
+  if (!hadGitmodules && fs.existsSync(gitmodules) && fs.readFileSync(gitmodules, 'utf-8').trim() === '') {
+    await runStep(title, 'git', ['rm', '-f', '--', '.gitmodules'], projectRoot);
+  }
+}
+
+/**
+ * Runs one step of the project setup with a cancellable progress notification.
+ * @returns The result of the process, or undefined if it failed or was cancelled.
+ */
+async function runSetupStep(
+  log: BuildLog,
+  title: string,
+  command: string,
+  args: string[],
+  cwd: string
+): Promise<ProcessResult | undefined> {
+  try {
+    const result = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title, cancellable: true },
+      (_progress, token) => runProcess(command, args, { cwd, token, log })
+    );
+
+    if (result.cancelled) {
+      vscode.window.showWarningMessage('Project setup was cancelled.');
+      return undefined;
+    }
+    if (result.exitCode !== 0) {
+      vscode.window
+        .showErrorMessage(
+          `Error executing ${path.basename(command)}: ${result.stderr.trim() || `exit code ${result.exitCode}`}`,
+          'Show Output'
+        )
+        .then((action) => action && log.show());
+      return undefined;
+    }
+    return result;
+  } catch (error: any) {
+    vscode.window.showErrorMessage(`Project setup failed: ${error.message}`);
+    return undefined;
+  }
+}
+
+/**
+ * Lists the branches and tags of a framework repository.
+ * @returns The refs, or undefined if the repository cannot be reached in time.
+ */
+export async function listRefs(source: string, cwd: string): Promise<FrameworkRefs | undefined> {
+  const cancellation = new vscode.CancellationTokenSource();
+  const timer = setTimeout(() => cancellation.cancel(), LIST_REFS_TIMEOUT);
+  try {
+    const result = await runProcess('git', ['ls-remote', '--heads', '--tags', '--', source], {
+      cwd,
+      token: cancellation.token,
+    });
+    if (result.exitCode !== 0) {
+      return undefined;
+    }
+
+    const refs: FrameworkRefs = { branches: [], tags: [] };
+    for (const line of result.stdout.split(/\r?\n/)) {
+      const ref = line.split('\t')[1] ?? '';
+      if (ref.startsWith('refs/heads/')) {
+        refs.branches.push(ref.substring('refs/heads/'.length));
+      } else if (ref.startsWith('refs/tags/') && !ref.endsWith('^{}')) {
+        refs.tags.push(ref.substring('refs/tags/'.length));
+      }
+    }
+    return refs;
+  } catch {
+    return undefined;
+  } finally {
+    clearTimeout(timer);
+    cancellation.dispose();
+  }
+}
+
+/**
+ * Checks the location of a framework source.
+ */
+function validateSource(kind: FrameworkSourceKind, source: string, projectRoot: string): string | undefined {
+  if (source === '') {
+    return kind === 'remote' ? 'Enter a repository URL.' : 'Enter a folder.';
+  }
+  if (kind === 'remote') {
+    return undefined;
+  }
+
+  const folder = path.resolve(projectRoot, source);
+  if (!fs.existsSync(folder) || !fs.statSync(folder).isDirectory()) {
+    return `The folder ${folder} does not exist.`;
+  }
+  if (kind === 'mirror') {
+    const isBare = fs.existsSync(path.join(folder, 'HEAD')) && fs.existsSync(path.join(folder, 'objects'));
+    return isBare ? undefined : `${folder} is not a bare git repository.`;
+  }
+  return fs.existsSync(path.join(folder, '.git')) ? undefined : `${folder} is not a git repository.`;
+}
+
+/**
+ * Checks a ref against the branches and tags of the source, when they could be listed.
+ * Anything that looks like a commit hash is accepted.
+ */
+export function validateRef(ref: string, refs: FrameworkRefs | undefined): string | undefined {
+  if (ref === '' || !refs || /^[0-9a-f]{7,40}$/i.test(ref)) {
+    return undefined;
+  }
+  return refs.branches.includes(ref) || refs.tags.includes(ref)
+    ? undefined
+    : `'${ref}' is not a branch or tag of the framework repository.`;
+}
+
+async function isGitInstalled(cwd: string): Promise<boolean> {
+  try {
+    return (await runProcess('git', ['--version'], { cwd })).exitCode === 0;
+  } catch {
+    return false;
+  }
+}
+
+async function isInsideGitRepository(folder: string): Promise<boolean> {
+  try {
+    return (await runProcess('git', ['rev-parse', '--is-inside-work-tree'], { cwd: folder })).exitCode === 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the .code-workspace files directly inside some folders with their modification time.
+ */
+function findWorkspaceFiles(folders: string[]): Map<string, number> {
+  const files = new Map<string, number>();
+  for (const folder of folders) {
+    try {
+      for (const name of fs.readdirSync(folder)) {
+        if (name.endsWith('.code-workspace')) {
+          const filePath = path.join(folder, name);
+          files.set(filePath, fs.statSync(filePath).mtimeMs);
+        }
+      }
+    } catch {
+      // The folder cannot be read
+    }
+  }
+  return files;
+}
+
+/**
+ * Returns the workspace file setup.py created: a .code-workspace path it printed, or else a
+ * file that appeared or changed while it ran.
+ */
+function findCreatedWorkspaceFile(
+  result: ProcessResult,
+  cwd: string,
+  before: Map<string, number>,
+  after: Map<string, number>
+): string | undefined {
+  for (const match of result.stdout.matchAll(/[^\s'"]+\.code-workspace/g)) {
+    const filePath = path.resolve(cwd, match[0]);
+    if (fs.existsSync(filePath)) {
+      return filePath;
+    }
+  }
+  return [...after].find(([filePath, mtime]) => before.get(filePath) !== mtime)?.[0];
+}
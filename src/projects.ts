@@ -0,0 +1,321 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { IniTreeDataProvider, IniTreeItem } from './treeView';
+import { getFrameworkPath } from './interpreter';
+import { BuildLog } from './buildLog';
+import { SourceTreeItem } from './librarySources';
+
+/**
+ * A folder of the workspace holding a Miracle project: a config.ini next to a checkout of
+ * the framework in miracle/.
+ */
+export interface MiracleProject {
+  name: string;
+  /** Absolute path of the folder containing config.ini. */
+  root: string;
+  folder: vscode.WorkspaceFolder;
+  config: IniTreeDataProvider;
+}
+
+/**
+ * Milliseconds to wait after config.ini files are created or deleted before searching for
+ * projects again.
+ */
+const DISCOVER_DELAY = 300;
+
+/**
+ * MiracleProjectManager discovers the Miracle projects in every workspace folder and keeps
+ * the list up to date as folders are added or removed and config.ini files are created or
+ * deleted. It also tracks the active project, which build commands without an explicit
+ * project are scoped to.
+ */
+export class MiracleProjectManager implements vscode.Disposable {
+  private _onDidChangeProjects = new vscode.EventEmitter<void>();
+  readonly onDidChangeProjects: vscode.Event<void> = this._onDidChangeProjects.event;
+  private _onDidChangeActiveProject = new vscode.EventEmitter<MiracleProject | undefined>();
+  readonly onDidChangeActiveProject: vscode.Event<MiracleProject | undefined> = this._onDidChangeActiveProject.event;
+
+  private _projects: MiracleProject[] = [];
+  private _activeProject: MiracleProject | undefined;
+  private disposables: vscode.Disposable[] = [];
+  private discoverTimer: NodeJS.Timeout | undefined;
+  private discovery: Promise<void> = Promise.resolve();
+  private disposed = false;
+
+  /**
+   * @param log The log the projects' setup.py invocations are recorded in.
+   */
+  constructor(private log?: BuildLog) {
+    const configWatcher = vscode.workspace.createFileSystemWatcher('**/config.ini', false, true, false);
+    this.disposables.push(
+      configWatcher,
+      configWatcher.onDidCreate(() => this.scheduleDiscover()),
+      configWatcher.onDidDelete(() => this.scheduleDiscover()),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.discover()),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration('miracle.frameworkPath')) {
+          this.discover();
+        }
+      }),
+      vscode.window.onDidChangeActiveTextEditor((editor) => {
+        // Follow the project of the file being edited
+        const project = editor && this.getProject(editor.document.uri.fsPath);
+        if (project) {
+          this.setActiveProject(project);
+        }
+      })
+    );
+  }
+
+  /**
+   * The Miracle projects found in the workspace, ordered by path.
+   */
+  get projects(): readonly MiracleProject[] {
+    return this._projects;
+  }
+
+  /**
+   * The project build commands are scoped to when none is given explicitly.
+   */
+  get activeProject(): MiracleProject | undefined {
+    return this._activeProject;
+  }
+
+  /**
+   * Searches for projects once a burst of config.ini creations and deletions has settled,
+   * so that a config.ini replaced by a save or a checkout keeps its project.
+   */
+  private scheduleDiscover() {
+    clearTimeout(this.discoverTimer);
+    this.discoverTimer = setTimeout(() => {
+      this.discoverTimer = undefined;
+      this.discover();
+    }, DISCOVER_DELAY);
+  }
+
+  /**
+   * Searches every workspace folder for Miracle projects. Projects that are still present
+   * keep their state; projects that disappeared are disposed. Searches run one after the
+   * other so that overlapping triggers never create a project twice.
+   * @returns A promise resolved once this search has finished.
+   */
+  discover(): Promise<void> {
+    const search = this.discovery.then(() => this.findProjects());
+    this.discovery = search.catch(() => undefined);
+    return search;
+  }
+
+  /**
+   * Returns the glob of the folders that are not searched for config.ini: dependencies, git
+   * metadata and the framework checkouts, whose own examples must not become projects.
+   */
+  private getExcludePattern(): string {
+    const folders = new Set(['node_modules', '.git']);
+    const scopes = [undefined, ...(vscode.workspace.workspaceFolders ?? []).map((folder) => folder.uri)];
+    for (const scope of scopes) {
+      const configured = vscode.workspace.getConfiguration('miracle', scope).get<string>('frameworkPath', 'miracle');
+      const frameworkPath = path.normalize(configured.trim() || 'miracle');
+      if (!path.isAbsolute(frameworkPath) && !frameworkPath.startsWith('..')) {
+        folders.add(frameworkPath.split(path.sep).join('/'));
+      }
+    }
+    return `**/{${[...folders].join(',')}}/**`;
+  }
+
+  /**
+   * Updates the project list from the config.ini files of the workspace.
+   */
+  private async findProjects() {
+    const configs = await vscode.workspace.findFiles('**/config.ini', this.getExcludePattern());
+    if (this.disposed) {
+      return;
+    }
+    const roots = configs
+      .map((uri) => path.dirname(uri.fsPath))
+      .filter((root) => fs.existsSync(getFrameworkPath(root)))
+      .sort();
+
+    const previous = new Map(this._projects.map((project) => [project.root, project]));
+    const projects: MiracleProject[] = [];
+
+    for (const root of roots) {
+      const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(root));
+      if (!folder) {
+        continue;
+      }
+
+      const existing = previous.get(root);
+      if (existing) {
+        previous.delete(root);
+        projects.push(existing);
+      } else {
+        const relative = path.relative(folder.uri.fsPath, root);
+        const name = relative === '' ? folder.name : `${folder.name}/${relative.split(path.sep).join('/')}`;
+        projects.push({ name, root, folder, config: new IniTreeDataProvider(root, this.log) });
+      }
+    }
+
+    previous.forEach((project) => project.config.dispose());
+    this._projects = projects;
+    this._onDidChangeProjects.fire();
+
+    if (!this._activeProject || !projects.includes(this._activeProject)) {
+      const editor = vscode.window.activeTextEditor;
+      this.setActiveProject((editor && this.getProject(editor.document.uri.fsPath)) ?? projects[0]);
+    }
+  }
+
+  /**
+   * Returns the project containing a file or folder.
+   * @param fsPath An absolute path.
+   */
+  getProject(fsPath: string): MiracleProject | undefined {
+    let match: MiracleProject | undefined;
+    for (const project of this._projects) {
+      const relative = path.relative(project.root, fsPath);
+      const isInside = !relative.startsWith('..') && !path.isAbsolute(relative);
+      if (isInside && (!match || project.root.length > match.root.length)) {
+        match = project;
+      }
+    }
+    return match;
+  }
+
+  /**
+   * Makes a project the target of build commands.
+   */
+  setActiveProject(project: MiracleProject | undefined) {
+    if (project !== this._activeProject) {
+      this._activeProject = project;
+      this._onDidChangeActiveProject.fire(project);
+    }
+  }
+
+  /**
+   * Resolves the project a command applies to: the project of a tree item if one is given,
+   * otherwise the active project.
+   * @param item The tree item the command was invoked on.
+   */
+  resolveProject(item?: vscode.TreeItem): MiracleProject | undefined {
+    if (item instanceof IniTreeItem || item instanceof ProjectTreeItem || item instanceof SourceTreeItem) {
+      return this.getProject(item.projectRoot);
+    }
+    if (!this._activeProject) {
+      vscode.window.showErrorMessage('No Miracle project found in the workspace.');
+    }
+    return this._activeProject;
+  }
+
+  /**
+   * Lets the user choose the active project.
+   */
+  async selectProject(): Promise<MiracleProject | undefined> {
+    if (this._projects.length === 0) {
+      vscode.window.showErrorMessage('No Miracle project found in the workspace.');
+      return undefined;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      this._projects.map((project) => ({
+        label: project.name,
+        description: project === this._activeProject ? 'active' : undefined,
+        detail: project.root,
+        project,
+      })),
+      { placeHolder: 'Select the Miracle project to build' }
+    );
+    if (picked) {
+      this.setActiveProject(picked.project);
+    }
+    return picked?.project;
+  }
+
+  dispose() {
+    this.disposed = true;
+    clearTimeout(this.discoverTimer);
+    this._projects.forEach((project) => project.config.dispose());
+    this.disposables.forEach((d) => d.dispose());
+    this._onDidChangeProjects.dispose();
+    this._onDidChangeActiveProject.dispose();
+  }
+}
+
+/**
+ * ProjectTreeItem is the top-level node of a project when the workspace holds more than one.
+ */
+export class ProjectTreeItem extends vscode.TreeItem {
+  readonly projectRoot: string;
+
+  constructor(project: MiracleProject, active: boolean) {
+    super(project.name, vscode.TreeItemCollapsibleState.Expanded);
+    this.projectRoot = project.root;
+    this.description = active ? 'active' : undefined;
+    this.tooltip = project.root;
+    this.iconPath = new vscode.ThemeIcon('project');
+    this.contextValue = 'miracleProject';
+  }
+}
+
+/**
+ * ProjectTreeDataProvider backs the Project Configuration view. With a single project it
+ * shows that project's config.ini directly; with several it shows one node per project,
+ * each expanding into its config.ini.
+ */
+export class ProjectTreeDataProvider implements vscode.TreeDataProvider<vscode.TreeItem>, vscode.Disposable {
+  private _onDidChangeTreeData = new vscode.EventEmitter<vscode.TreeItem | undefined | void>();
+  readonly onDidChangeTreeData: vscode.Event<vscode.TreeItem | undefined | void> = this._onDidChangeTreeData.event;
+
+  private disposables: vscode.Disposable[] = [];
+  private configListeners: vscode.Disposable[] = [];
+
+  constructor(private projectManager: MiracleProjectManager) {
+    this.disposables.push(
+      projectManager.onDidChangeProjects(() => this.watchProjects()),
+      projectManager.onDidChangeActiveProject(() => this._onDidChangeTreeData.fire())
+    );
+    this.watchProjects();
+  }
+
+  getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: vscode.TreeItem): Thenable<vscode.TreeItem[]> {
+    const projects = this.projectManager.projects;
+
+    if (!element) {
+      if (projects.length === 1) {
+        return projects[0].config.getChildren();
+      }
+      return Promise.resolve(
+        projects.map((project) => new ProjectTreeItem(project, project === this.projectManager.activeProject))
+      );
+    }
+
+    const project = this.projectManager.resolveProject(element);
+    if (!project) {
+      return Promise.resolve([]);
+    }
+    return element instanceof IniTreeItem || element instanceof SourceTreeItem
+      ? project.config.getChildren(element)
+      : project.config.getChildren();
+  }
+
+  /**
+   * Refreshes the view whenever one of the projects' config.ini changes.
+   */
+  private watchProjects() {
+    this.configListeners.forEach((d) => d.dispose());
+    this.configListeners = this.projectManager.projects.map((project) =>
+      project.config.onDidChangeTreeData(() => this._onDidChangeTreeData.fire())
+    );
+    this._onDidChangeTreeData.fire();
+  }
+
+  dispose() {
+    this.configListeners.forEach((d) => d.dispose());
+    this.disposables.forEach((d) => d.dispose());
+    this._onDidChangeTreeData.dispose();
+  }
+}
@@ -0,0 +1,435 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { BuildProcessTerminal, BuildProcessResult, FailedTaskTerminal } from './buildProcess';
+import { BuildLog } from './buildLog';
+import { MiracleProject, MiracleProjectManager } from './projects';
+import { getFrameworkPath, resolvePythonInterpreter, resolveScript } from './interpreter';
+import {
+  MIRACLE_PLATFORMS,
+  ensureToolchain,
+  findExecutable,
+  getHostPlatform,
+  getWindowsRunner,
+  isPlatformSupported,
+} from './platform';
+
+/**
+ * The task type contributed by the extension. Tasks of this type can be referenced
+ * from a workspace's tasks.json and used as a preLaunchTask in launch.json.
+ */
+export const MIRACLE_TASK_TYPE = 'miracle';
+
+/**
+ * Problem matchers contributed in package.json for GCC/Clang and MSVC diagnostics.
+ */
+const BUILD_PROBLEM_MATCHERS = ['$miracle-gcc', '$miracle-msvc'];
+
+/**
+ * Reported when a Windows executable is run on another host without miracle.run.windowsRunner.
+ */
+const NO_WINDOWS_RUNNER_MESSAGE =
+  'Cannot run a Windows executable on this machine. Set miracle.run.windowsRunner to a runner such as wine.';
+
+/**
+ * The commands understood by the Miracle Framework scripts.
+ */
+export type MiracleCommand = 'build' | 'build-exe' | 'clean' | 'run';
+
+/**
+ * MiracleTaskDefinition describes a single invocation of build.py or run.py.
+ * It mirrors the "miracle" task definition contributed in package.json.
+ */
+export interface MiracleTaskDefinition extends vscode.TaskDefinition {
+  command: MiracleCommand;
+  /** The project folder relative to the workspace folder, when it is not the workspace folder itself. */
+  project?: string;
+  target?: string;
+  platform?: string;
+  linkType?: string;
+  buildType?: string;
+  /** Extra arguments appended to the script invocation, e.g. from a build profile. */
+  args?: string[];
+}
+
+/**
+ * What happens when a build is requested while another one is running, as set in
+ * miracle.build.whileRunning.
+ */
+export type RunningBuildPolicy = 'queue' | 'cancel' | 'reject';
+
+/**
+ * Describes a Miracle task that has started running.
+ */
+export interface MiracleTaskStartEvent {
+  name: string;
+  definition: MiracleTaskDefinition;
+  /** The root folder of the project the task runs in. */
+  projectRoot: string;
+  /** The executable the task spawns. */
+  command: string;
+  args: string[];
+  /** The working directory of the process. */
+  cwd: string;
+}
+
+/**
+ * Describes a Miracle task that has finished, together with the outcome of its process.
+ */
+export interface MiracleTaskEndEvent extends MiracleTaskStartEvent {
+  result: BuildProcessResult;
+}
+
+/**
+ * MiracleTaskProvider exposes build, hot compile, clean and run actions as VS Code tasks.
+ * Each task spawns the framework script as a tracked child process so that the exit code,
+ * duration and diagnostics are known, while the contributed problem matchers pick up
+ * compiler output in the task terminal.
+ */
+export class MiracleTaskProvider implements vscode.TaskProvider, vscode.Disposable {
+  private _onDidStartTask = new vscode.EventEmitter<MiracleTaskStartEvent>();
+  readonly onDidStartTask: vscode.Event<MiracleTaskStartEvent> = this._onDidStartTask.event;
+  private _onDidEndTask = new vscode.EventEmitter<MiracleTaskEndEvent>();
+  readonly onDidEndTask: vscode.Event<MiracleTaskEndEvent> = this._onDidEndTask.event;
+
+  /** Builds wait here for the previous ones to finish, in the order they were requested. */
+  private buildQueue: Promise<unknown> = Promise.resolve();
+  /** Incremented when tasks are stopped, so that builds queued before do not start. */
+  private stopCount = 0;
+
+  constructor(
+    private projectManager: MiracleProjectManager,
+    private log: BuildLog
+  ) {}
+
+  /**
+   * Provides the default set of Miracle tasks for every project in the workspace.
+   */
+  provideTasks(): vscode.Task[] {
+    return this.projectManager.projects.flatMap((project) => this.provideProjectTasks(project));
+  }
+
+  /**
+   * Provides the default set of Miracle tasks for a project.
+   */
+  private provideProjectTasks(project: MiracleProject): vscode.Task[] {
+    const relative = path.relative(project.folder.uri.fsPath, project.root).split(path.sep).join('/');
+    const definitions: MiracleTaskDefinition[] = [];
+    for (const platform of MIRACLE_PLATFORMS.filter(isPlatformSupported)) {
+      definitions.push({ type: MIRACLE_TASK_TYPE, command: 'build', target: 'all', platform, buildType: 'hot' });
+      for (const linkType of ['dynamic', 'static']) {
+        for (const buildType of ['debug', 'release']) {
+          definitions.push({ type: MIRACLE_TASK_TYPE, command: 'build-exe', platform, linkType, buildType });
+        }
+      }
+      for (const buildType of ['debug', 'release']) {
+        definitions.push({ type: MIRACLE_TASK_TYPE, command: 'run', platform, buildType });
+      }
+    }
+    definitions.push({ type: MIRACLE_TASK_TYPE, command: 'clean' });
+
+    return definitions.map((definition) =>
+      this.createTask(relative === '' ? definition : { ...definition, project: relative }, project.root, project.folder)
+    );
+  }
+
+  /**
+   * Resolves a task referenced from tasks.json by filling in its execution.
+   * @param task The task with a "miracle" definition.
+   */
+  resolveTask(task: vscode.Task): vscode.Task | undefined {
+    const definition = task.definition as MiracleTaskDefinition;
+    if (!definition.command) {
+      return undefined;
+    }
+
+    const scope = task.scope;
+    const folderRoot =
+      scope !== undefined && typeof scope === 'object' ? scope.uri.fsPath : this.projectManager.activeProject?.root;
+    if (!folderRoot) {
+      return undefined;
+    }
+
+    return this.createTask(definition, path.join(folderRoot, definition.project ?? ''), task.scope);
+  }
+
+  /**
+   * Creates a VS Code task for the given Miracle task definition.
+   * @param definition The task definition describing the script invocation.
+   * @param workspaceRoot The root folder of the Miracle project.
+   * @param scope The scope of the task, defaults to the workspace folder containing the project.
+   */
+  createTask(
+    definition: MiracleTaskDefinition,
+    workspaceRoot: string,
+    scope?: vscode.TaskScope | vscode.WorkspaceFolder
+  ): vscode.Task {
+    const miracleRoot = getFrameworkPath(workspaceRoot);
+    const project = this.projectManager.getProject(workspaceRoot);
+    const name = this.getProjectTaskName(definition, project);
+
+    const execution = new vscode.CustomExecution(async (resolved) => {
+      const resolvedDefinition = resolved as MiracleTaskDefinition;
+
+      // Windows executables run through the configured runner, e.g. wine, on other hosts
+      const runner = resolvedDefinition.command === 'run' && getWindowsRunner(getPlatform(resolvedDefinition));
+      if (runner === '') {
+        // Tasks from tasks.json and preLaunchTask skip the checks of runTask
+        vscode.window.showErrorMessage(NO_WINDOWS_RUNNER_MESSAGE);
+        return new FailedTaskTerminal(NO_WINDOWS_RUNNER_MESSAGE);
+      }
+      // Without an interpreter the spawn fails and the task terminal reports it
+      const command = runner || (await resolvePythonInterpreter(vscode.Uri.file(workspaceRoot), this.log)) || 'python';
+      const args = runner
+        ? [
+            getExecutablePath(getPlatform(resolvedDefinition), resolvedDefinition.buildType ?? 'debug'),
+            ...(resolvedDefinition.args ?? []),
+          ]
+        : getScriptArgs(resolvedDefinition);
+      const event = { name, definition: resolvedDefinition, projectRoot: workspaceRoot, command, args, cwd: miracleRoot };
+
+      // Builds of every target get a summary per target in the log
+      const buildsAll = resolvedDefinition.command === 'build' && (resolvedDefinition.target ?? 'all') === 'all';
+      return new BuildProcessTerminal(
+        command,
+        args,
+        miracleRoot,
+        this.log,
+        buildsAll ? project?.config.getBuildTargets() : undefined,
+        () => this._onDidStartTask.fire(event),
+        (result) => this._onDidEndTask.fire({ ...event, result })
+      );
+    });
+    const taskScope =
+      scope ?? vscode.workspace.getWorkspaceFolder(vscode.Uri.file(workspaceRoot)) ?? vscode.TaskScope.Workspace;
+
+    const task = new vscode.Task(
+      definition,
+      taskScope,
+      name,
+      MIRACLE_TASK_TYPE,
+      execution,
+      isBuildCommand(definition.command) ? BUILD_PROBLEM_MATCHERS : []
+    );
+
+    if (isBuildCommand(definition.command)) {
+      task.group = vscode.TaskGroup.Build;
+    } else if (definition.command === 'clean') {
+      task.group = vscode.TaskGroup.Clean;
+    }
+    task.presentationOptions = { reveal: vscode.TaskRevealKind.Always, panel: vscode.TaskPanelKind.Shared };
+
+    return task;
+  }
+
+  /**
+   * Returns the name of a task in a project. The project name is appended when the workspace
+   * holds more than one project, so tasks of different projects can be told apart.
+   */
+  getProjectTaskName(definition: MiracleTaskDefinition, project: MiracleProject | undefined): string {
+    return project && this.projectManager.projects.length > 1
+      ? `${getTaskName(definition)} [${project.name}]`
+      : getTaskName(definition);
+  }
+
+  /**
+   * Runs a Miracle task after checking that the required script and interpreter exist.
+   * @param definition The task definition describing the script invocation.
+   * @param project The project to run the task in, defaults to the active project.
+   */
+  async runTask(
+    definition: MiracleTaskDefinition,
+    project = this.projectManager.resolveProject()
+  ): Promise<vscode.TaskExecution | undefined> {
+    if (!project) {
+      return undefined;
+    }
+    // Recorded in the task so that it shows and reports the platform it builds for
+    if (definition.command !== 'clean') {
+      definition = { ...definition, platform: getPlatform(definition) };
+    }
+
+    if (!resolveScript(getFrameworkPath(project.root), getScriptName(definition.command))) {
+      return undefined;
+    }
+
+    // Report a missing compiler before launching rather than through a failed build
+    if (isBuildCommand(definition.command) && !ensureToolchain(getPlatform(definition))) {
+      return undefined;
+    }
+
+    const runner = definition.command === 'run' ? getWindowsRunner(getPlatform(definition)) : undefined;
+    if (runner === undefined && !(await resolvePythonInterpreter(vscode.Uri.file(project.root), this.log))) {
+      return undefined;
+    }
+
+    if (definition.command === 'run') {
+      if (runner === '') {
+        vscode.window.showErrorMessage(NO_WINDOWS_RUNNER_MESSAGE);
+        return undefined;
+      }
+      if (runner && !fs.existsSync(runner) && !findExecutable(runner)) {
+        vscode.window.showErrorMessage(`The Windows runner '${runner}' was not found.`);
+        return undefined;
+      }
+    }
+
+    const task = this.createTask(definition, project.root, project.folder);
+    if (!isBuildCommand(definition.command)) {
+      return vscode.tasks.executeTask(task);
+    }
+
+    const running = this.getRunningExecutions(true);
+    const policy = vscode.workspace.getConfiguration('miracle.build').get<RunningBuildPolicy>('whileRunning', 'queue');
+    if (running.length > 0) {
+      if (policy === 'reject') {
+        vscode.window
+          .showWarningMessage(`Miracle: '${running[0].task.name}' is still running.`, 'Stop')
+          .then((action) => action && this.stopTasks());
+        return undefined;
+      }
+      if (policy === 'cancel') {
+        running.forEach((execution) => execution.terminate());
+      } else {
+        vscode.window.setStatusBarMessage(`Miracle: '${task.name}' will start once '${running[0].task.name}' finishes.`, 5000);
+      }
+    }
+
+    const stopCount = this.stopCount;
+    const turn = this.buildQueue.then(async () => {
+      await this.whenNoBuildRuns();
+      return stopCount === this.stopCount ? vscode.tasks.executeTask(task) : undefined;
+    });
+    this.buildQueue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  /**
+   * Returns the Miracle tasks that are running, including those started from tasks.json.
+   * @param buildsOnly Whether to leave out clean and run tasks.
+   */
+  getRunningExecutions(buildsOnly = false): vscode.TaskExecution[] {
+    return vscode.tasks.taskExecutions.filter((execution) => {
+      const definition = execution.task.definition as MiracleTaskDefinition;
+      return definition.type === MIRACLE_TASK_TYPE && (!buildsOnly || isBuildCommand(definition.command));
+    });
+  }
+
+  /**
+   * Stops every running Miracle task, builds and executables alike, together with the
+   * processes they started. Queued builds are dropped.
+   * @returns The number of tasks stopped.
+   */
+  stopTasks(): number {
+    this.stopCount++;
+    const executions = this.getRunningExecutions();
+    executions.forEach((execution) => execution.terminate());
+    return executions.length;
+  }
+
+  /**
+   * Resolves once no Miracle build is running.
+   */
+  private async whenNoBuildRuns() {
+    while (this.getRunningExecutions(true).length > 0) {
+      await new Promise<void>((resolve) => {
+        const listener = vscode.tasks.onDidEndTask(() => {
+          listener.dispose();
+          resolve();
+        });
+      });
+    }
+  }
+
+  dispose() {
+    this._onDidStartTask.dispose();
+    this._onDidEndTask.dispose();
+  }
+}
+
+/**
+ * Returns whether a command compiles code, as opposed to cleaning or running.
+ */
+export function isBuildCommand(command: MiracleCommand): boolean {
+  return command === 'build' || command === 'build-exe';
+}
+
+/**
+ * Builds the path to an executable produced by build-exe, relative to the 'miracle' folder.
+ * @param platform The target platform.
+ * @param buildType The build type, 'hot' and 'debug' share the debug directory.
+ */
+export function getExecutablePath(platform: string, buildType: string): string {
+  const dir = buildType === 'hot' || buildType === 'debug' ? 'debug' : 'release';
+
+  let execPath = path.join('bin', platform, dir, 'executable');
+  if (platform === 'windows') {
+    execPath += '.exe';
+  }
+  return execPath;
+}
+
+/**
+ * Returns the platform a task builds or runs for, the host platform if the definition has none.
+ */
+export function getPlatform(definition: MiracleTaskDefinition): string {
+  return definition.platform ?? getHostPlatform() ?? 'linux';
+}
+
+/**
+ * Returns the name of the script in the framework's scripts/ folder a command is executed with.
+ */
+function getScriptName(command: MiracleCommand): string {
+  return command === 'run' ? 'run.py' : 'build.py';
+}
+
+/**
+ * Translates a task definition into the arguments passed to the Python interpreter.
+ */
+function getScriptArgs(definition: MiracleTaskDefinition): string[] {
+  const args = [path.join('scripts', getScriptName(definition.command))];
+
+  switch (definition.command) {
+    case 'build':
+      args.push('build', '--target', definition.target ?? 'all');
+      args.push('--platform', getPlatform(definition));
+      args.push('--build-type', definition.buildType ?? 'hot');
+      break;
+    case 'build-exe':
+      args.push('build-exe', '--platform', getPlatform(definition));
+      args.push('--link', definition.linkType ?? 'dynamic');
+      args.push('--build-type', definition.buildType ?? 'debug');
+      break;
+    case 'clean':
+      args.push('clean');
+      break;
+    case 'run':
+      args.push(getExecutablePath(getPlatform(definition), definition.buildType ?? 'debug'));
+      break;
+  }
+
+  if (definition.command !== 'clean') {
+    args.push(...(definition.args ?? []));
+  }
+
+  return args;
+}
+
+/**
+ * Returns a human readable name for a task, used as its label in the task picker.
+ */
+export function getTaskName(definition: MiracleTaskDefinition): string {
+  switch (definition.command) {
+    case 'build':
+      // build.py hot compiles unless another build type is given
+      return (definition.buildType ?? 'hot') === 'hot'
+        ? `hot compile ${definition.target ?? 'all'} (${getPlatform(definition)})`
+        : `build ${definition.target ?? 'all'} (${getPlatform(definition)}, ${definition.buildType})`;
+    case 'build-exe':
+      return `build executable (${getPlatform(definition)}, ${definition.linkType ?? 'dynamic'}, ${definition.buildType ?? 'debug'})`;
+    case 'run':
+      return `run executable (${getPlatform(definition)}, ${definition.buildType ?? 'debug'})`;
+    case 'clean':
+      return 'clean';
+  }
+}
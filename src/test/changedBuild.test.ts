@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BuildTarget } from '../buildLog';
+import { planChangedBuild } from '../changedBuild';
+import { DependencyGraph } from '../dependencyGraph';
+import { MiracleProject } from '../projects';
+
+suite('planChangedBuild', () => {
+  let root: string;
+
+  /**
+   * Creates a project whose config.ini declares the given graph, with one source file and
+   * one hot compiled artifact per target, the artifacts newer than the sources. The
+   * application lives in the project root, which holds the libraries and the framework too.
+   */
+  const createProject = (graph: DependencyGraph): MiracleProject => {
+    const outputDir = path.join(root, 'miracle', 'bin', 'linux', 'debug');
+    fs.mkdirSync(outputDir, { recursive: true });
+    const targets: BuildTarget[] = [...graph.keys()].map((name) => ({
+      name,
+      dir: name === 'application' ? root : path.join(root, name),
+    }));
+    for (const target of targets) {
+      fs.mkdirSync(target.dir, { recursive: true });
+      touch(path.join(target.dir, `${target.name}.c`), 1000);
+      touch(path.join(outputDir, target.name === 'application' ? 'executable' : `lib${target.name}.so`), 2000);
+    }
+    const config = { getDependencyGraph: () => graph, getBuildTargets: () => targets };
+    return { name: 'test', root, config } as unknown as MiracleProject;
+  };
+
+  const touch = (file: string, time: number) => {
+    fs.writeFileSync(file, '');
+    fs.utimesSync(file, time, time);
+  };
+
+  setup(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'miracle-changed-'));
+  });
+
+  teardown(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  const graph = (): DependencyGraph =>
+    new Map([
+      ['application', ['render', 'audio']],
+      ['core', []],
+      ['render', ['core']],
+      ['audio', []],
+    ]);
+
+  test('plans nothing when every target is up to date', async () => {
+    assert.deepStrictEqual(await planChangedBuild(createProject(graph()), 'linux'), { stale: [], order: [] });
+  });
+
+  test('builds a changed library before everything depending on it', async () => {
+    const project = createProject(graph());
+    touch(path.join(root, 'core', 'core.c'), 3000);
+
+    assert.deepStrictEqual(await planChangedBuild(project, 'linux'), {
+      stale: ['core'],
+      order: ['core', 'render', 'application'],
+    });
+  });
+
+  test('only compares the sources and headers a target owns', async () => {
+    const project = createProject(graph());
+    touch(path.join(root, 'README.md'), 3000);
+    touch(path.join(root, 'core', 'core.h'), 3000);
+    fs.mkdirSync(path.join(root, 'miracle', 'src'));
+    touch(path.join(root, 'miracle', 'src', 'engine.c'), 3000);
+
+    assert.deepStrictEqual(await planChangedBuild(project, 'linux'), {
+      stale: ['core'],
+      order: ['core', 'render', 'application'],
+    });
+  });
+
+  test('builds targets that were never built', async () => {
+    const project = createProject(graph());
+    fs.rmSync(path.join(root, 'miracle', 'bin', 'linux', 'debug', 'libaudio.so'));
+
+    assert.deepStrictEqual(await planChangedBuild(project, 'linux'), {
+      stale: ['audio'],
+      order: ['audio', 'application'],
+    });
+  });
+
+  test('has no plan when the dependencies contain a cycle', async () => {
+    const cyclic = graph();
+    cyclic.set('core', ['render']);
+    assert.strictEqual(await planChangedBuild(createProject(cyclic), 'linux'), undefined);
+  });
+});
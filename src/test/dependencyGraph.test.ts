@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import { DependencyGraph, findCycleFromEdge, findCycles, findDependents, topologicalOrder } from '../dependencyGraph';
+
+suite('dependencyGraph', () => {
+  const graph = (entries: Record<string, string[]>): DependencyGraph => new Map(Object.entries(entries));
+
+  test('finds no cycle in a graph without one', () => {
+    assert.deepStrictEqual(findCycles(graph({ application: ['core', 'render'], render: ['core'], core: [] })), []);
+  });
+
+  test('finds a cycle once, starting and ending at the same node', () => {
+    const cycles = findCycles(graph({ application: ['a'], a: ['b'], b: ['c'], c: ['a'] }));
+    assert.deepStrictEqual(cycles, [['a', 'b', 'c', 'a']]);
+  });
+
+  test('finds a library depending on itself', () => {
+    assert.deepStrictEqual(findCycles(graph({ a: ['a'] })), [['a', 'a']]);
+  });
+
+  test('finds separate cycles', () => {
+    const cycles = findCycles(graph({ a: ['b'], b: ['a'], c: ['d'], d: ['c'] }));
+    assert.deepStrictEqual(cycles, [
+      ['a', 'b', 'a'],
+      ['c', 'd', 'c'],
+    ]);
+  });
+
+  test('ignores missing dependencies', () => {
+    assert.deepStrictEqual(findCycles(graph({ a: ['missing'], b: ['a'] })), []);
+    assert.deepStrictEqual(topologicalOrder(graph({ a: ['missing'], b: ['a'] })), ['a', 'b']);
+  });
+
+  test('reports the cycle a new dependency would close', () => {
+    const dependencies = graph({ a: ['b'], b: ['c'], c: [] });
+    assert.deepStrictEqual(findCycleFromEdge(dependencies, 'c', 'a'), ['c', 'a', 'b', 'c']);
+    assert.strictEqual(findCycleFromEdge(dependencies, 'a', 'c'), undefined);
+  });
+
+  test('orders dependencies before their dependents', () => {
+    const order = topologicalOrder(graph({ application: ['render', 'core'], render: ['core'], core: [] }));
+    assert.deepStrictEqual(order, ['core', 'render', 'application']);
+  });
+
+  test('has no build order when there is a cycle', () => {
+    assert.strictEqual(topologicalOrder(graph({ a: ['b'], b: ['a'] })), undefined);
+  });
+
+  test('finds direct and indirect dependents', () => {
+    const dependencies = graph({ application: ['render'], render: ['core'], core: [], audio: [] });
+    assert.deepStrictEqual([...findDependents(dependencies, ['core'])], ['render', 'application']);
+    assert.deepStrictEqual([...findDependents(dependencies, ['audio'])], []);
+  });
+});
@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import { IniDocument, IniEdit } from '../iniDocument';
+
+/**
+ * Applies edits to the text they were computed for, the way a WorkspaceEdit would.
+ */
+function applyEdits(text: string, edits: IniEdit[]): string {
+  const lineStarts = [0];
+  for (const match of text.matchAll(/\r?\n/g)) {
+    lineStarts.push(match.index! + match[0].length);
+  }
+  const offset = (line: number, column: number) => lineStarts[line] + column;
+
+  return edits
+    .map((edit) => ({
+      start: offset(edit.line, edit.start),
+      end: offset(edit.endLine ?? edit.line, edit.end),
+      text: edit.text,
+    }))
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, edit) => result.substring(0, edit.start) + edit.text + result.substring(edit.end), text);
+}
+
+const CONFIG = [
+  '; Miracle project',
+  '[application]',
+  'path = app   ; the executable',
+  'dependencies = core, render',
+  '',
+  '[library.core]',
+  'path = "core"',
+  'type = static',
+  '',
+  '[library.render]',
+  'path = render',
+  'type = dynamic',
+  'dependencies = core',
+  '',
+].join('\n');
+
+suite('IniDocument', () => {
+  const edit = (text: string, computeEdits: (document: IniDocument) => IniEdit[]) =>
+    applyEdits(text, computeEdits(IniDocument.parse(text)));
+
+  test('changes only the edited value, keeping comments and quotes', () => {
+    assert.strictEqual(
+      edit(CONFIG, (document) => [
+        ...document.setValue('application', 'path', 'game'),
+        ...document.setValue('library.core', 'path', 'base'),
+      ]),
+      CONFIG.replace('path = app   ;', 'path = game   ;').replace('path = "core"', 'path = "base"')
+    );
+  });
+
+  test('leaves the text unchanged when a value is set to itself', () => {
+    assert.strictEqual(edit(CONFIG, (document) => document.setValue('library.render', 'type', 'dynamic')), CONFIG);
+  });
+
+  test('keeps CRLF line endings', () => {
+    const crlf = CONFIG.replace(/\n/g, '\r\n');
+    assert.strictEqual(
+      edit(crlf, (document) => document.setValue('library.core', 'dependencies', 'math')),
+      crlf.replace('type = static\r\n', 'type = static\r\ndependencies = math\r\n')
+    );
+  });
+
+  test('appends and removes dependencies with the separator in use', () => {
+    const appended = edit(CONFIG, (document) => document.appendDependency('application', 'audio'));
+    assert.strictEqual(appended, CONFIG.replace('dependencies = core, render', 'dependencies = core, render, audio'));
+    assert.strictEqual(edit(appended, (document) => document.removeDependency('application', 'audio')), CONFIG);
+  });
+
+  test('adds and removes a section without leaving blank lines behind', () => {
+    const added = edit(CONFIG, (document) =>
+      document.addSection('library.audio', [
+        ['path', 'audio'],
+        ['type', 'static'],
+      ])
+    );
+    assert.strictEqual(added, CONFIG.replace(/\n$/, '\n\n[library.audio]\npath = audio\ntype = static\n'));
+    assert.strictEqual(edit(added, (document) => document.removeSection('library.audio')), CONFIG);
+  });
+
+  test('renames every declaration of a section', () => {
+    const text = '[library.a]\npath = a\n\n[library.a]\ntype = static\n';
+    assert.strictEqual(
+      edit(text, (document) => document.renameSection('library.a', 'library.b')),
+      '[library.b]\npath = a\n\n[library.b]\ntype = static\n'
+    );
+  });
+
+  test('reports malformed lines and reads the rest', () => {
+    const document = IniDocument.parse('[application\n= value\n[library.core]\npath = core\n');
+    assert.deepStrictEqual(document.problems.map((problem) => problem.line), [0, 1]);
+    assert.strictEqual(document.getValue('library.core', 'path'), 'core');
+  });
+});
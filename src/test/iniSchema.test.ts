@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import { IniKeySchema, getKeySchema, getSectionSchema, validateIniValue } from '../iniSchema';
+
+suite('iniSchema', () => {
+  const schema = (section: string, key: string): IniKeySchema => {
+    const keySchema = getKeySchema(section, key);
+    assert.ok(keySchema, `no schema for ${section}.${key}`);
+    return keySchema;
+  };
+
+  test('knows the application and library sections', () => {
+    assert.strictEqual(getSectionSchema('application')?.name, 'application');
+    assert.strictEqual(getSectionSchema('library.core')?.name, 'library.*');
+    assert.strictEqual(getSectionSchema('library.'), undefined);
+    assert.strictEqual(getSectionSchema('unknown'), undefined);
+    assert.strictEqual(getKeySchema('library.core', 'unknown'), undefined);
+  });
+
+  test('accepts the library types only', () => {
+    assert.strictEqual(validateIniValue(schema('library.core', 'type'), ' static '), undefined);
+    assert.strictEqual(validateIniValue(schema('library.core', 'type'), 'dynamic'), undefined);
+    assert.strictEqual(
+      validateIniValue(schema('library.core', 'type'), 'shared'),
+      "'type' must be one of: static, dynamic."
+    );
+  });
+
+  test('accepts relative paths only', () => {
+    assert.strictEqual(validateIniValue(schema('library.core', 'path'), 'libs/core'), undefined);
+    assert.strictEqual(validateIniValue(schema('library.core', 'path'), ' '), "'path' cannot be empty.");
+    assert.strictEqual(
+      validateIniValue(schema('library.core', 'path'), '/usr/src/core'),
+      "'path' must be relative to the project root."
+    );
+    assert.strictEqual(
+      validateIniValue(schema('library.core', 'path'), 'core?'),
+      "'path' contains characters that are not allowed in a path."
+    );
+  });
+
+  test('accepts dependencies that are library names', () => {
+    assert.strictEqual(validateIniValue(schema('application', 'dependencies'), 'core, render_2,'), undefined);
+    assert.strictEqual(validateIniValue(schema('application', 'dependencies'), ''), undefined);
+    assert.strictEqual(
+      validateIniValue(schema('application', 'dependencies'), 'core, my lib, a.b'),
+      'Invalid library name: my lib, a.b.'
+    );
+  });
+
+  test('accepts any application name', () => {
+    assert.strictEqual(validateIniValue(schema('application', 'name'), ''), undefined);
+  });
+});
@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import { formatCommandLine, quoteShellArgument, splitShellArguments } from '../processRunner';
+
+suite('processRunner', () => {
+  test('leaves plain arguments unquoted', () => {
+    for (const kind of ['posix', 'powershell', 'cmd'] as const) {
+      assert.strictEqual(quoteShellArgument('--target=core', kind), '--target=core');
+      assert.strictEqual(quoteShellArgument('C:\\miracle\\scripts\\build.py', kind), 'C:\\miracle\\scripts\\build.py');
+    }
+  });
+
+  test('quotes arguments for POSIX shells', () => {
+    assert.strictEqual(quoteShellArgument('my project', 'posix'), "'my project'");
+    assert.strictEqual(quoteShellArgument("it's", 'posix'), `'it'\\''s'`);
+    assert.strictEqual(quoteShellArgument('$HOME', 'posix'), "'$HOME'");
+    assert.strictEqual(quoteShellArgument('', 'posix'), "''");
+  });
+
+  test('quotes arguments for PowerShell', () => {
+    assert.strictEqual(quoteShellArgument('my project', 'powershell'), "'my project'");
+    assert.strictEqual(quoteShellArgument("it's", 'powershell'), "'it''s'");
+  });
+
+  test('quotes arguments for cmd', () => {
+    assert.strictEqual(quoteShellArgument('my project', 'cmd'), '"my project"');
+    assert.strictEqual(quoteShellArgument('say "hi"', 'cmd'), '"say ""hi"""');
+    assert.strictEqual(quoteShellArgument('C:\\my dir\\', 'cmd'), '"C:\\my dir\\\\"');
+    assert.strictEqual(quoteShellArgument('%PATH%', 'cmd'), '""^%"PATH"^%""');
+  });
+
+  test('invokes a quoted command with & in PowerShell', () => {
+    assert.strictEqual(formatCommandLine('python', ['build.py'], 'powershell'), 'python build.py');
+    assert.strictEqual(
+      formatCommandLine('C:\\Program Files\\python.exe', ['build.py'], 'powershell'),
+      "& 'C:\\Program Files\\python.exe' build.py"
+    );
+  });
+
+  test('splits arguments like a POSIX shell', () => {
+    assert.deepStrictEqual(splitShellArguments('  --jobs 4  '), ['--jobs', '4']);
+    assert.deepStrictEqual(splitShellArguments(`--define 'NAME=my game' --flag="a b" ''`), [
+      '--define',
+      'NAME=my game',
+      '--flag=a b',
+      '',
+    ]);
+    assert.deepStrictEqual(splitShellArguments(`it\\'s "say \\"hi\\"" my\\ dir`), ["it's", 'say "hi"', 'my dir']);
+    assert.deepStrictEqual(splitShellArguments('C:\\miracle\\bin'), ['C:\\miracle\\bin']);
+    assert.deepStrictEqual(splitShellArguments(''), []);
+  });
+
+  test('rejects unclosed quotes', () => {
+    assert.strictEqual(splitShellArguments(`--define 'NAME=my game`), undefined);
+    assert.strictEqual(splitShellArguments('"a'), undefined);
+  });
+
+  test('splits what formatCommandLine quotes back into the same arguments', () => {
+    const args = ["it's", 'my project', '$HOME', '', 'a"b'];
+    assert.deepStrictEqual(splitShellArguments(formatCommandLine('python', args, 'posix')), ['python', ...args]);
+  });
+});
@@ -0,0 +1,121 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runProcess } from '../processRunner';
+import { SetupPlan, addFramework, listRefs, validateRef } from '../projectSetup';
+
+suite('projectSetup', () => {
+  let root: string;
+  let mirror: string;
+  let projectRoot: string;
+  let frameworkRoot: string;
+  let firstCommit: string;
+
+  const git = async (cwd: string, ...args: string[]) => {
+    const identity = ['-c', 'user.name=Test', '-c', 'user.email=test@example.com'];
+    const result = await runProcess('git', [...identity, ...args], { cwd });
+    assert.strictEqual(result.exitCode, 0, `git ${args.join(' ')} failed: ${result.stderr}`);
+    return result.stdout.trim();
+  };
+
+  /** Runs the setup steps without progress notifications, like runSetupStep. */
+  const runStep = async (_title: string, command: string, args: string[], cwd: string) => {
+    const result = await runProcess(command, args, { cwd });
+    return result.exitCode === 0 ? result : undefined;
+  };
+
+  const plan = (ref: string, submodule: boolean): SetupPlan => ({
+    sourceKind: 'mirror',
+    source: mirror,
+    ref,
+    submodule,
+    projectName: 'test',
+  });
+
+  const readVersion = () => fs.readFileSync(path.join(frameworkRoot, 'VERSION'), 'utf-8');
+
+  // A bare mirror with the tag v1.0 on the first commit and a second commit on main
+  suiteSetup(async function () {
+    this.timeout(30000);
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'miracle-setup-'));
+    const source = path.join(root, 'source');
+    fs.mkdirSync(source);
+    await git(source, 'init', '--initial-branch=main');
+    fs.writeFileSync(path.join(source, 'VERSION'), '1.0');
+    await git(source, 'add', 'VERSION');
+    await git(source, 'commit', '-m', 'First version');
+    await git(source, 'tag', 'v1.0');
+    firstCommit = await git(source, 'rev-parse', 'HEAD');
+    fs.writeFileSync(path.join(source, 'VERSION'), '2.0');
+    await git(source, 'commit', '-am', 'Second version');
+
+    mirror = path.join(root, 'mirror.git');
+    await git(root, 'clone', '--bare', source, mirror);
+  });
+
+  suiteTeardown(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  setup(async () => {
+    projectRoot = fs.mkdtempSync(path.join(root, 'project-'));
+    frameworkRoot = path.join(projectRoot, 'miracle');
+    await git(projectRoot, 'init', '--initial-branch=main');
+  });
+
+  test('lists the branches and tags of the mirror', async () => {
+    assert.deepStrictEqual(await listRefs(mirror, root), { branches: ['main'], tags: ['v1.0'] });
+  });
+
+  test('accepts branches, tags and commits and rejects other refs', async () => {
+    const refs = await listRefs(mirror, root);
+    assert.strictEqual(validateRef('main', refs), undefined);
+    assert.strictEqual(validateRef('v1.0', refs), undefined);
+    assert.strictEqual(validateRef(firstCommit.substring(0, 7), refs), undefined);
+    assert.strictEqual(validateRef('v9.9', refs), "'v9.9' is not a branch or tag of the framework repository.");
+  });
+
+  test('copies the default branch without git history', async () => {
+    assert.strictEqual(await addFramework(plan('', false), projectRoot, frameworkRoot, runStep), true);
+    assert.strictEqual(readVersion(), '2.0');
+    assert.strictEqual(fs.existsSync(path.join(frameworkRoot, '.git')), false);
+  });
+
+  test('copies a pinned tag', async () => {
+    assert.strictEqual(await addFramework(plan('v1.0', false), projectRoot, frameworkRoot, runStep), true);
+    assert.strictEqual(readVersion(), '1.0');
+    assert.strictEqual(fs.existsSync(path.join(frameworkRoot, '.git')), false);
+  });
+
+  test('copies a pinned commit', async () => {
+    assert.strictEqual(await addFramework(plan(firstCommit, false), projectRoot, frameworkRoot, runStep), true);
+    assert.strictEqual(readVersion(), '1.0');
+  });
+
+  test('adds a submodule following a branch', async () => {
+    assert.strictEqual(await addFramework(plan('main', true), projectRoot, frameworkRoot, runStep), true);
+    assert.strictEqual(readVersion(), '2.0');
+    assert.match(fs.readFileSync(path.join(projectRoot, '.gitmodules'), 'utf-8'), /branch = main/);
+  });
+
+  test('adds a submodule pinned to a tag', async () => {
+    assert.strictEqual(await addFramework(plan('v1.0', true), projectRoot, frameworkRoot, runStep), true);
+    assert.strictEqual(readVersion(), '1.0');
+    const recorded = await git(projectRoot, 'ls-files', '--stage', '--', 'miracle');
+    assert.ok(recorded.includes(firstCommit), `the superproject records ${recorded}`);
+  });
+
+  test('fails on an invalid ref and removes the copy', async () => {
+    assert.strictEqual(await addFramework(plan('v9.9', false), projectRoot, frameworkRoot, runStep), false);
+    assert.strictEqual(fs.existsSync(frameworkRoot), false);
+  });
+
+  test('fails on an invalid ref for a submodule and removes it', async () => {
+    assert.strictEqual(await addFramework(plan('v9.9', true), projectRoot, frameworkRoot, runStep), false);
+    assert.strictEqual(fs.existsSync(frameworkRoot), false);
+    assert.strictEqual(fs.existsSync(path.join(projectRoot, '.gitmodules')), false);
+    assert.strictEqual(fs.existsSync(path.join(projectRoot, '.git', 'modules', 'miracle')), false);
+    assert.strictEqual(await git(projectRoot, 'status', '--porcelain'), '');
+  });
+});
@@ -1,29 +1,105 @@
 import * as vscode from 'vscode';
-import * as ini from 'ini';
 import * as fs from 'fs';
 import * as path from 'path';
-import { exec } from 'child_process';
+import {
+  APPLICATION_NODE,
+  DependencyGraph,
+  findCycleFromEdge,
+  formatCycle,
+  nodeToSection,
+  sectionToNode,
+} from './dependencyGraph';
+import { IniDocument, IniEdit, IniProblem } from './iniDocument';
+import { getFrameworkPath, resolvePythonInterpreter, resolveScript } from './interpreter';
+import { runProcess } from './processRunner';
+import { BuildLog, BuildTarget } from './buildLog';
+import { runLibraryWizard } from './libraryWizard';
+import { SourceTreeItem, describeBuildState, getTargetBuildStatus } from './librarySources';
+import { getKeySchema, getSectionSchema, LIBRARY_NAME_PATTERN, LIBRARY_TYPES, validateIniValue } from './iniSchema';
+
+/**
+ * A library declared in config.ini.
+ */
+export interface MiracleLibrary {
+  name: string;
+  /** Absolute path of the library's source folder. */
+  path: string;
+  type: string;
+  dependencies: string[];
+}
+
+/**
+ * Milliseconds to wait after the last change to config.ini on disk before reloading it.
+ */
+const RELOAD_DELAY = 150;
+
+/**
+ * How often a missing or empty config.ini is read again before the tree shows it that way.
+ */
+const RELOAD_RETRIES = 3;
+
+/**
+ * Splits a comma-separated dependencies value into library names.
+ * @param value The raw value of a 'dependencies' key.
+ */
+export function parseDependencies(value: unknown): string[] {
+  if (typeof value !== 'string') {
+    return [];
+  }
+  return value
+    .split(',')
+    .map((dep) => dep.trim())
+    .filter((dep) => dep !== '');
+}
 
 /**
  * IniTreeDataProvider is responsible for providing the data for the tree view
  * based on the contents of a config.ini file.
  */
-export class IniTreeDataProvider implements vscode.TreeDataProvider<IniTreeItem> {
+export class IniTreeDataProvider implements vscode.TreeDataProvider<vscode.TreeItem>, vscode.Disposable {
   private _onDidChangeTreeData: vscode.EventEmitter<IniTreeItem | undefined | void> = new vscode.EventEmitter<IniTreeItem | undefined | void>();
   readonly onDidChangeTreeData: vscode.Event<IniTreeItem | undefined | void> = this._onDidChangeTreeData.event;
+  private _onDidChangeConfigFile = new vscode.EventEmitter<void>();
+  /** Fires when config.ini changes on disk. */
+  readonly onDidChangeConfigFile: vscode.Event<void> = this._onDidChangeConfigFile.event;
 
-  private iniData: any;
+  private iniData: any = {};
   private iniPath: string;
   private terminalName: string = 'Miracle Framework';
 
-  constructor(private workspaceRoot: string) {
+  /** Lines of config.ini that could not be parsed, shown at the top of the tree. */
+  private problems: IniProblem[] = [];
+  /** Why config.ini could not be read, while the last contents read are still shown. */
+  private loadError: string | undefined;
+  private watcher: vscode.FileSystemWatcher;
+  private reloadTimer: NodeJS.Timeout | undefined;
+
+  /**
+   * @param workspaceRoot The folder containing config.ini.
+   * @param log The log setup.py invocations are recorded in.
+   */
+  constructor(
+    private workspaceRoot: string,
+    private log?: BuildLog
+  ) {
     this.iniPath = path.join(this.workspaceRoot, 'config.ini');
     this.loadIniFile();
 
-    // Watch for changes to the ini file and refresh the tree view when it changes
-    fs.watchFile(this.iniPath, () => {
-      this.refresh();
-    });
+    // Reload the tree when config.ini is changed, replaced or removed on disk
+    this.watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(this.workspaceRoot, 'config.ini'));
+    this.watcher.onDidChange(() => this.scheduleReload());
+    this.watcher.onDidCreate(() => this.scheduleReload());
+    this.watcher.onDidDelete(() => this.scheduleReload());
+  }
+
+  /**
+   * Stops watching the INI file.
+   */
+  dispose() {
+    clearTimeout(this.reloadTimer);
+    this.watcher.dispose();
+    this._onDidChangeTreeData.dispose();
+    this._onDidChangeConfigFile.dispose();
   }
 
   /**
@@ -35,82 +111,250 @@ export class IniTreeDataProvider implements vscode.TreeDataProvider<IniTreeItem>
   }
 
   /**
-   * Loads the INI file from the workspace root.
+   * Updates the up-to-date badges of the application and the libraries without reading
+   * config.ini again.
    */
-  loadIniFile() {
-    if (fs.existsSync(this.iniPath)) {
-      const content = fs.readFileSync(this.iniPath, 'utf-8');
-      this.iniData = ini.parse(content);
-    } else {
-      vscode.window.showErrorMessage(`config.ini not found at ${this.iniPath}`);
-      this.iniData = {}; // Initialize iniData to prevent undefined errors
+  refreshBuildStates(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Loads the INI file from the workspace root. When it cannot be read, the contents read
+   * last are kept and the problem is shown in the tree.
+   * @returns Whether the file was read.
+   */
+  loadIniFile(): boolean {
+    const text = this.readIniText();
+    if (text === undefined) {
+      return false;
+    }
+
+    const document = IniDocument.parse(text);
+    this.iniData = document.toObject();
+    this.problems = document.problems;
+    this.loadError = undefined;
+    return true;
+  }
+
+  /**
+   * Reads config.ini, preferring the editor buffer so that unsaved edits are shown.
+   * @returns The text, or undefined with loadError set if the file cannot be read.
+   */
+  private readIniText(): string | undefined {
+    const openDocument = vscode.workspace.textDocuments.find(
+      (document) => document.uri.scheme === 'file' && path.resolve(document.uri.fsPath) === path.resolve(this.iniPath)
+    );
+    if (openDocument) {
+      return openDocument.getText();
     }
+
+    try {
+      return fs.readFileSync(this.iniPath, 'utf-8');
+    } catch (error: any) {
+      this.loadError =
+        error.code === 'ENOENT' ? `config.ini not found at ${this.iniPath}` : `Cannot read config.ini: ${error.message}`;
+      return undefined;
+    }
+  }
+
+  /**
+   * Reloads config.ini once changes to it have settled. Saves can truncate or replace the
+   * file, so a missing or empty file is read again a few times before it is shown.
+   * @param attempt How often the file was found missing or empty in a row.
+   */
+  private scheduleReload(attempt = 0) {
+    clearTimeout(this.reloadTimer);
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = undefined;
+      const text = this.readIniText();
+      const hadContents = Object.keys(this.iniData).length > 0;
+      if ((text === undefined || text.trim() === '') && hadContents && attempt < RELOAD_RETRIES) {
+        this.scheduleReload(attempt + 1);
+        return;
+      }
+
+      this.loadIniFile();
+      this._onDidChangeTreeData.fire();
+      this._onDidChangeConfigFile.fire();
+    }, RELOAD_DELAY);
   }
 
   /**
-   * Retrieves the TreeItem representation of an IniTreeItem.
-   * @param element The IniTreeItem to convert.
+   * Retrieves the TreeItem representation of an element.
+   * @param element The IniTreeItem or SourceTreeItem to convert.
    */
-  getTreeItem(element: IniTreeItem): vscode.TreeItem {
+  getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
     return element;
   }
 
   /**
-   * Provides the children of a given element in the tree.
-   * @param element The parent IniTreeItem.
+   * Provides the children of a given element in the tree. Library and application nodes
+   * list their keys followed by their source folder and built artifacts.
+   * @param element The parent IniTreeItem, or a folder under a library.
    */
-  getChildren(element?: IniTreeItem): Thenable<IniTreeItem[]> {
-    if (!this.workspaceRoot) {
-      vscode.window.showInformationMessage('No workspace open');
-      return Promise.resolve([]);
+  async getChildren(element?: IniTreeItem | SourceTreeItem): Promise<vscode.TreeItem[]> {
+    if (element instanceof SourceTreeItem) {
+      return element.getChildren();
     }
 
     if (element) {
       // Return child keys or sub-sections
       const data = element.data;
       if (typeof data === 'object') {
-        return Promise.resolve(
-          Object.keys(data).map((key) => {
-            const isSection = typeof data[key] === 'object';
-            const sectionPath = isSection
-              ? (element.section ? `${element.section}.${key}` : key)
-              : element.section; // Retain parent section for keys
-            const collapsibleState = isSection
-              ? vscode.TreeItemCollapsibleState.Collapsed
-              : vscode.TreeItemCollapsibleState.None;
-
-            const item = new IniTreeItem(key, data[key], collapsibleState, sectionPath);
-            return item;
-          })
-        );
+        const keyItems = Object.keys(data).map((key) => {
+          const isSection = typeof data[key] === 'object';
+          const sectionPath = isSection
+            ? (element.section ? `${element.section}.${key}` : key)
+            : element.section; // Retain parent section for keys
+          const collapsibleState = isSection
+            ? vscode.TreeItemCollapsibleState.Collapsed
+            : vscode.TreeItemCollapsibleState.None;
+
+          return new IniTreeItem(key, data[key], collapsibleState, sectionPath, this.workspaceRoot);
+        });
+        await Promise.all(keyItems.map((item) => this.showBuildState(item)));
+
+        const items: vscode.TreeItem[] = keyItems;
+
+        const target = this.getBuildTarget(element);
+        if (target) {
+          const frameworkRoot = getFrameworkPath(this.workspaceRoot);
+          const status = await getTargetBuildStatus(frameworkRoot, target, this.getBuildTargets());
+          items.push(
+            new SourceTreeItem(this.workspaceRoot, target.dir, 'sources'),
+            new SourceTreeItem(this.workspaceRoot, path.join(frameworkRoot, 'bin'), 'artifacts', status.artifacts)
+          );
+        }
+        return items;
       } else {
         // No children
-        return Promise.resolve([]);
+        return [];
       }
     } else {
-      // Return root sections
-      return Promise.resolve(
-        Object.keys(this.iniData).map((key) => {
-          const data = this.iniData[key];
-          const isSection = typeof data === 'object';
-          const sectionPath = key; // top-level keys
-          const collapsibleState = isSection
-            ? vscode.TreeItemCollapsibleState.Collapsed
-            : vscode.TreeItemCollapsibleState.None;
+      // Return root sections, after the problems reading config.ini
+      const items = Object.keys(this.iniData).map((key) => {
+        const data = this.iniData[key];
+        const isSection = typeof data === 'object';
+        const sectionPath = isSection ? key : ''; // top-level keys belong to no section
+        const collapsibleState = isSection
+          ? vscode.TreeItemCollapsibleState.Collapsed
+          : vscode.TreeItemCollapsibleState.None;
+
+        const item = new IniTreeItem(key, data, collapsibleState, sectionPath, this.workspaceRoot);
+
+        // Set contextValue for application and library nodes
+        if (key === 'application' || key === 'library') {
+          item.contextValue = 'applicationOrLibrary';
+        } else {
+          item.contextValue = 'iniSection';
+        }
+        return item;
+      });
+      await Promise.all(items.map((item) => this.showBuildState(item)));
+      return [...this.getProblemItems(), ...items];
+    }
+  }
+
+  /**
+   * Returns the nodes reporting why config.ini could not be read and the lines that could
+   * not be parsed. Each opens config.ini at the problem.
+   */
+  private getProblemItems(): vscode.TreeItem[] {
+    const uri = vscode.Uri.file(this.iniPath);
+    const items: vscode.TreeItem[] = [];
+
+    if (this.loadError) {
+      const item = new vscode.TreeItem(this.loadError);
+      item.description = Object.keys(this.iniData).length > 0 ? 'showing the last contents read' : undefined;
+      item.iconPath = new vscode.ThemeIcon('error', new vscode.ThemeColor('errorForeground'));
+      item.contextValue = 'iniProblem';
+      items.push(item);
+    }
+
+    for (const problem of this.problems) {
+      const item = new vscode.TreeItem(problem.message);
+      item.description = `config.ini:${problem.line + 1}`;
+      item.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'));
+      item.contextValue = 'iniProblem';
+      item.command = {
+        command: 'vscode.open',
+        title: 'Open config.ini',
+        arguments: [uri, { selection: new vscode.Range(problem.line, 0, problem.line, 0) }],
+      };
+      items.push(item);
+    }
+    return items;
+  }
 
-          const item = new IniTreeItem(key, data, collapsibleState, sectionPath);
+  /**
+   * Returns the libraries declared as [library.<name>] sections in config.ini.
+   */
+  getLibraries(): MiracleLibrary[] {
+    const libraries = this.iniData['library'] || {};
+    return Object.keys(libraries)
+      .filter((name) => typeof libraries[name] === 'object')
+      .map((name) => {
+        const data = libraries[name];
+        return {
+          name,
+          path: path.resolve(this.workspaceRoot, String(data['path'] ?? name)),
+          type: String(data['type'] ?? ''),
+          dependencies: parseDependencies(data['dependencies']),
+        };
+      });
+  }
 
-          // Set contextValue for application and library nodes
-          if (key === 'application' || key === 'library') {
-            item.contextValue = 'applicationOrLibrary';
-          } else {
-            item.contextValue = 'iniSection';
-          }
+  /**
+   * Returns the targets built by `build --target all`: the application, if config.ini names
+   * its folder, and every library.
+   */
+  getBuildTargets(): BuildTarget[] {
+    const application = this.iniData[APPLICATION_NODE];
+    const targets: BuildTarget[] =
+      typeof application === 'object' && application['path']
+        ? [{ name: APPLICATION_NODE, dir: path.resolve(this.workspaceRoot, String(application['path'])) }]
+        : [];
+    return [...targets, ...this.getLibraries().map((library) => ({ name: library.name, dir: library.path }))];
+  }
 
-          return item;
-        })
-      );
+  /**
+   * Returns the build target of the application or a library node, if it names a folder.
+   */
+  getBuildTarget(item: IniTreeItem): BuildTarget | undefined {
+    return this.getBuildTargets().find((target) => nodeToSection(target.name) === item.section);
+  }
+
+  /**
+   * Marks the application and library nodes with whether their last build is up to date.
+   */
+  private async showBuildState(item: IniTreeItem) {
+    const target = typeof item.data === 'object' ? this.getBuildTarget(item) : undefined;
+    if (!target) {
+      return;
     }
+    const frameworkRoot = getFrameworkPath(this.workspaceRoot);
+    const state = describeBuildState(await getTargetBuildStatus(frameworkRoot, target, this.getBuildTargets()));
+    item.description = state.label;
+    item.iconPath = state.icon;
+    item.tooltip = state.tooltip;
+  }
+
+  /**
+   * Returns the keys set anywhere in config.ini, once each.
+   */
+  getKeys(): string[] {
+    const keys = new Set<string>();
+    const collect = (data: any) => {
+      for (const [key, value] of Object.entries(data ?? {})) {
+        if (typeof value === 'object' && !Array.isArray(value)) {
+          collect(value);
+        } else {
+          keys.add(key);
+        }
+      }
+    };
+    collect(this.iniData);
+    return [...keys];
   }
 
   /**
@@ -132,196 +376,489 @@ export class IniTreeDataProvider implements vscode.TreeDataProvider<IniTreeItem>
   }
 
   /**
-   * Updates a value in the INI data and writes it back to the file.
+   * Updates a value in config.ini, leaving the rest of the file intact.
    * @param item The IniTreeItem to update.
    * @param value The new value.
    */
-  updateIniValue(item: IniTreeItem, value: string) {
+  async updateIniValue(item: IniTreeItem, value: string) {
     const section = item.section;
     const key = item.label;
 
-    const targetData = this.getSectionData(section);
+    const targetData = section === '' ? this.iniData : this.getSectionData(section);
 
     if (targetData) {
-      targetData[key] = value;
-      this.updateIniFile();
-      this.refresh();
-      vscode.window.showInformationMessage(`Updated '${key}' in section [${section}] to '${value}'.`);
+      if (await this.applyIniEdits((document) => document.setValue(section, key, value))) {
+        vscode.window.showInformationMessage(`Updated '${key}' in section [${section}] to '${value}'.`);
+      }
     } else {
       vscode.window.showErrorMessage(`Section [${section}] not found.`);
     }
   }
 
+  /**
+   * Prompts for a new value of a leaf item using an input suited to the key: a quick pick for
+   * enums, a folder picker for paths and a multi-select of libraries for dependencies.
+   * Keys without a schema are edited as free text.
+   * @param item The IniTreeItem to edit.
+   */
+  async editIniValue(item: IniTreeItem) {
+    const schema = getKeySchema(item.section, item.label);
+    const current = String(item.data);
+    let value: string | undefined;
+
+    switch (schema?.kind) {
+      case 'enum': {
+        const picked = await vscode.window.showQuickPick(
+          (schema.values ?? []).map((v) => ({ label: v, description: v === current ? 'current' : undefined })),
+          { placeHolder: `Select ${item.label} for [${item.section}]` }
+        );
+        value = picked?.label;
+        break;
+      }
+      case 'path':
+        value = await this.pickFolder(item, current);
+        break;
+      case 'dependencies':
+        value = await this.pickDependencies(item, current);
+        break;
+      default:
+        value = await vscode.window.showInputBox({
+          prompt: schema ? `Edit value for ${item.label}: ${schema.description}` : `Edit value for ${item.label}`,
+          value: current,
+          validateInput: (input) => (schema ? validateIniValue(schema, input) ?? null : null),
+        });
+        break;
+    }
+
+    if (value !== undefined) {
+      this.updateIniValue(item, value);
+    }
+  }
+
+  /**
+   * Lets the user pick a folder inside the project for a path key.
+   * @returns The folder relative to the project root, or undefined if cancelled.
+   */
+  private async pickFolder(item: IniTreeItem, current: string): Promise<string | undefined> {
+    const uris = await vscode.window.showOpenDialog({
+      canSelectFiles: false,
+      canSelectFolders: true,
+      canSelectMany: false,
+      defaultUri: vscode.Uri.file(path.resolve(this.workspaceRoot, current)),
+      openLabel: `Select ${item.label}`,
+    });
+    if (!uris || uris.length === 0) {
+      return undefined;
+    }
+
+    const relative = path.relative(this.workspaceRoot, uris[0].fsPath);
+    if (relative === '' || relative.startsWith('..') || path.isAbsolute(relative)) {
+      vscode.window.showErrorMessage(`'${item.label}' must be a folder inside ${this.workspaceRoot}.`);
+      return undefined;
+    }
+    return relative.split(path.sep).join('/');
+  }
+
+  /**
+   * Lets the user pick the libraries a section depends on, refusing selections that would
+   * create a dependency cycle.
+   * @returns The comma-separated dependencies, or undefined if cancelled or refused.
+   */
+  private async pickDependencies(item: IniTreeItem, current: string): Promise<string | undefined> {
+    const node = sectionToNode(item.section);
+    const graph = this.getDependencyGraph();
+    const currentDeps = parseDependencies(current);
+
+    const names = [...graph.keys()].filter((name) => name !== APPLICATION_NODE && name !== node);
+    const items: vscode.QuickPickItem[] = names.map((name) => ({ label: name, picked: currentDeps.includes(name) }));
+    // Keep references to missing libraries visible so they can be removed
+    currentDeps
+      .filter((dep) => !names.includes(dep))
+      .forEach((dep) => items.push({ label: dep, description: 'not a library', picked: true }));
+
+    const picked = await vscode.window.showQuickPick(items, {
+      canPickMany: true,
+      placeHolder: `Select the dependencies of [${item.section}]`,
+    });
+    if (!picked) {
+      return undefined;
+    }
+
+    const dependencies = picked.map((p) => p.label);
+    if (node) {
+      graph.set(node, []);
+      for (const dependency of dependencies) {
+        const cycle = findCycleFromEdge(graph, node, dependency);
+        if (cycle) {
+          vscode.window.showErrorMessage(
+            `Cannot depend on '${dependency}', it would create a dependency cycle: ${formatCycle(cycle)}.`
+          );
+          return undefined;
+        }
+      }
+    }
+    return dependencies.join(',');
+  }
+
   /**
    * Adds a dependency to a specified IniTreeItem.
    * @param item The IniTreeItem to which the dependency will be added.
    * @param dependency The dependency to add.
    */
-  addDependency(item: IniTreeItem, dependency: string) {
+  async addDependency(item: IniTreeItem, dependency: string) {
     const section = item.section || item.label;
+    await this.appendDependency(section, dependency);
+  }
+
+  /**
+   * Builds the dependency graph of the application and all libraries.
+   */
+  getDependencyGraph(): DependencyGraph {
+    const graph: DependencyGraph = new Map();
+    if (this.iniData[APPLICATION_NODE]) {
+      graph.set(APPLICATION_NODE, parseDependencies(this.iniData[APPLICATION_NODE]['dependencies']));
+    }
+    for (const library of this.getLibraries()) {
+      graph.set(library.name, library.dependencies);
+    }
+    return graph;
+  }
 
-    const targetData = this.getSectionData(section);
+  /**
+   * Appends a dependency to a section of config.ini after checking that it names an existing
+   * library and does not create a dependency cycle.
+   * @param section The section path, e.g. 'application' or 'library.test'.
+   * @param dependency The library to depend on.
+   * @returns Whether config.ini was changed.
+   */
+  private async appendDependency(section: string, dependency: string): Promise<boolean> {
+    const targetData = section ? this.getSectionData(section) : undefined;
 
     if (!section || !targetData) {
       vscode.window.showErrorMessage(`Section [${section}] not found.`);
-      return;
+      return false;
     }
 
-    const currentDeps = targetData['dependencies'] || '';
-    const depsArray = currentDeps ? currentDeps.split(',').map((dep: string) => dep.trim()) : [];
-    if (!depsArray.includes(dependency)) {
-      depsArray.push(dependency);
-      targetData['dependencies'] = depsArray.join(',');
-      this.updateIniFile();
-      this.refresh();
-      vscode.window.showInformationMessage(`Added dependency '${dependency}' to section [${section}].`);
-    } else {
+    const node = sectionToNode(section);
+    if (node) {
+      const graph = this.getDependencyGraph();
+      if (!graph.has(dependency) || dependency === APPLICATION_NODE) {
+        vscode.window.showErrorMessage(`Library '${dependency}' does not exist.`);
+        return false;
+      }
+
+      const cycle = findCycleFromEdge(graph, node, dependency);
+      if (cycle) {
+        vscode.window.showErrorMessage(
+          `Cannot add '${dependency}' to section [${section}], it would create a dependency cycle: ${formatCycle(cycle)}.`
+        );
+        return false;
+      }
+    }
+
+    const depsArray = parseDependencies(targetData['dependencies']);
+    if (depsArray.includes(dependency)) {
       vscode.window.showInformationMessage(`Dependency '${dependency}' already exists in section [${section}].`);
+      return false;
+    }
+
+    if (!(await this.applyIniEdits((document) => document.appendDependency(section, dependency)))) {
+      return false;
     }
+    vscode.window.showInformationMessage(`Added dependency '${dependency}' to section [${section}].`);
+    return true;
   }
 
   /**
-   * Adds a new library by prompting the user for input and updating the INI file accordingly.
+   * Adds a new library through a wizard. Once the plan is confirmed, setup.py creates the
+   * library, the template is copied and config.ini is updated in a single edit. If any of
+   * these fails, the library folder is deleted again if this attempt created it, and
+   * config.ini is left untouched.
    */
   async addLibrary() {
-    try {
-      // Prompt for the library name
-      let libraryName = await vscode.window.showInputBox({ prompt: 'Enter new library name' });
-      if (!libraryName) {
-        return; // User canceled
-      }
+    const frameworkRoot = getFrameworkPath(this.workspaceRoot);
+    if (!resolveScript(frameworkRoot, 'setup.py')) {
+      return;
+    }
+    const plan = await runLibraryWizard(this.workspaceRoot, frameworkRoot, this.getDependencyGraph());
+    if (!plan) {
+      return;
+    }
 
-      // Sanitize libraryName to remove leading './', '/', or any backslashes
-      libraryName = libraryName.replace(/^\.?\/+/, '').replace(/[\\/]/g, '').trim();
+    const libraryPath = path.join(this.workspaceRoot, plan.name);
+    const changes = [
+      `Run setup.py to create the ${plan.type} library in ${libraryPath}.`,
+      ...(plan.template ? [`Copy the files of ${plan.template} into it.`] : []),
+      `Add section [library.${plan.name}] to config.ini` +
+        (plan.dependencies.length > 0 ? `, depending on ${plan.dependencies.join(', ')}.` : '.'),
+      ...plan.dependents.map((section) => `Add '${plan.name}' to the dependencies of [${section}].`),
+    ];
+    const choice = await vscode.window.showInformationMessage(
+      `Add library '${plan.name}'?`,
+      { modal: true, detail: changes.join('\n') },
+      'Add Library'
+    );
+    if (choice !== 'Add Library') {
+      return;
+    }
 
-      // Optional: Validate libraryName to contain only allowed characters
-      const validNameRegex = /^[A-Za-z0-9_-]+$/;
-      if (!validNameRegex.test(libraryName)) {
-        vscode.window.showErrorMessage('Library name can only contain letters, numbers, underscores, and hyphens.');
-        return;
+    // The folder may have been created while the wizard was open, it is then never deleted
+    const createsFolder = !fs.existsSync(libraryPath);
+    try {
+      await this.runSetupScript(plan.name, plan.type);
+      if (plan.template) {
+        fs.cpSync(plan.template, libraryPath, { recursive: true, force: true });
       }
 
-      // Ensure 'library' section exists
-      if (!this.iniData['library']) {
-        this.iniData['library'] = {};
+      // The dependents are edited before the section is appended, as both may insert at the end of the file
+      const added = await this.applyIniEdits((document) => [
+        ...plan.dependents.flatMap((section) => document.appendDependency(section, plan.name)),
+        ...document.addSection(`library.${plan.name}`, [
+          ['path', plan.name],
+          ['type', plan.type],
+          ['dependencies', plan.dependencies.join(', ')],
+        ]),
+      ]);
+      if (!added) {
+        throw new Error('config.ini could not be updated.');
       }
-
-      // Check if the specific library already exists
-      if (this.iniData['library'][libraryName]) {
-        vscode.window.showErrorMessage(`Library '${libraryName}' already exists.`);
-        return;
+    } catch (error: any) {
+      if (createsFolder) {
+        fs.rmSync(libraryPath, { recursive: true, force: true });
       }
+      vscode.window
+        .showErrorMessage(`Failed to add library '${plan.name}': ${error.message}`, 'Show Output')
+        .then((action) => action && this.log?.show());
+      return;
+    }
 
-      // Prompt for library type: static or dynamic
-      const libType = await vscode.window.showQuickPick(['static', 'dynamic'], {
-        placeHolder: 'Select library type',
-      });
-      if (!libType) {
-        return; // User canceled
-      }
+    vscode.window.showInformationMessage(`Library '${plan.name}' added successfully.`);
+  }
 
-      // Run setup.py with the library name and type (located in scripts/)
-      await this.runSetupScript(libraryName, libType);
+  /**
+   * Removes a library from config.ini and from the dependencies of every other section,
+   * optionally deleting its source folder. The changes are listed for confirmation first.
+   * @param item The [library.<name>] node.
+   */
+  async removeLibrary(item: IniTreeItem) {
+    const library = this.getLibraries().find((lib) => `library.${lib.name}` === item.section);
+    if (!library) {
+      vscode.window.showErrorMessage(`Section [${item.section}] is not a library.`);
+      return;
+    }
 
-      // After setup.py runs, add the new library to iniData
-      this.iniData['library'][libraryName] = {
-        path: libraryName, // Assuming the path is the same as libraryName
-        type: libType,
-        dependencies: '',
-      };
+    const dependents = this.getDependents(library.name);
+    const changes = [
+      `Remove section [library.${library.name}] from config.ini.`,
+      ...dependents.map((section) => `Remove '${library.name}' from the dependencies of [${section}].`),
+    ];
+    const folderExists = fs.existsSync(library.path);
+    const removeOnly = 'Remove Library';
+    const removeAndDelete = 'Remove and Delete Folder';
+
+    const choice = await vscode.window.showWarningMessage(
+      `Remove library '${library.name}'?`,
+      { modal: true, detail: changes.join('\n') },
+      removeOnly,
+      ...(folderExists ? [removeAndDelete] : [])
+    );
+    if (!choice) {
+      return;
+    }
 
-      // Write the updated iniData back to the ini file
-      this.updateIniFile();
+    const removed = await this.applyIniEdits(
+      (document) => [
+        ...document.removeSection(`library.${library.name}`),
+        ...dependents.flatMap((section) => document.removeDependency(section, library.name)),
+      ],
+      (workspaceEdit) => {
+        if (choice === removeAndDelete) {
+          workspaceEdit.deleteFile(vscode.Uri.file(library.path), { recursive: true, ignoreIfNotExists: true });
+        }
+      }
+    );
+    if (removed) {
+      vscode.window.showInformationMessage(`Library '${library.name}' removed.`);
+    }
+  }
 
-      // Ask if the user wants to add this library as a dependency
-      const addDependency = await vscode.window.showQuickPick(['Yes', 'No'], {
-        placeHolder: 'Add this library as a dependency to application or other libraries?',
-      });
-      if (addDependency === 'Yes') {
-        // Get a list of 'application' and existing libraries
-        const options = ['application'];
-        if (this.iniData['library']) {
-          // Extract library names
-          const libraryKeys = Object.keys(this.iniData['library']).map(libName => `library.${libName}`);
-          options.push(...libraryKeys);
+  /**
+   * Renames a library: its section, its path and folder when they follow the library name,
+   * and every reference in the dependencies of other sections.
+   * @param item The [library.<name>] node.
+   */
+  async renameLibrary(item: IniTreeItem) {
+    const library = this.getLibraries().find((lib) => `library.${lib.name}` === item.section);
+    if (!library) {
+      vscode.window.showErrorMessage(`Section [${item.section}] is not a library.`);
+      return;
+    }
+
+    const existing = new Set(this.getLibraries().map((lib) => lib.name));
+    const newName = await vscode.window.showInputBox({
+      prompt: `Enter the new name of library '${library.name}'`,
+      value: library.name,
+      validateInput: (value) => {
+        if (!LIBRARY_NAME_PATTERN.test(value)) {
+          return 'Library name can only contain letters, numbers, underscores, and hyphens.';
         }
+        return value !== library.name && existing.has(value) ? `Library '${value}' already exists.` : null;
+      },
+    });
+    if (!newName || newName === library.name) {
+      return;
+    }
 
-        const target = await vscode.window.showQuickPick(options, {
-          placeHolder: 'Select where to add this dependency',
-        });
-        if (target) {
-          // The target is already a flat section name like 'application' or 'library.test'
-          const sectionName = target;
-
-          // Update iniData to add this library as a dependency to the selected target
-          const targetData = this.getSectionData(sectionName);
-
-          if (targetData) {
-            const currentDeps = targetData['dependencies'] || '';
-            const depsArray = currentDeps ? currentDeps.split(',').map((dep: string) => dep.trim()) : [];
-            if (!depsArray.includes(libraryName)) {
-              depsArray.push(libraryName);
-              targetData['dependencies'] = depsArray.join(',');
-              this.updateIniFile();
-              this.refresh();
-              vscode.window.showInformationMessage(`Added '${libraryName}' as a dependency to section [${sectionName}].`);
-            } else {
-              vscode.window.showInformationMessage(`Dependency '${libraryName}' already exists in section [${sectionName}].`);
-            }
-          } else {
-            vscode.window.showErrorMessage(`Section [${sectionName}] not found.`);
-          }
+    // Only rename the folder when the path ends with the library name, as setup.py creates it
+    const pathValue = String(this.iniData['library'][library.name]['path'] ?? '');
+    const segments = pathValue.split(/[\\/]/);
+    const renamesFolder = segments[segments.length - 1] === library.name;
+    const newPathValue = renamesFolder ? [...segments.slice(0, -1), newName].join('/') : pathValue;
+    const newPath = path.resolve(this.workspaceRoot, newPathValue);
+    const movesFolder = renamesFolder && fs.existsSync(library.path) && !fs.existsSync(newPath);
+
+    const dependents = this.getDependents(library.name);
+    const changes = [
+      `Rename section [library.${library.name}] to [library.${newName}].`,
+      ...(renamesFolder ? [`Change its path from '${pathValue}' to '${newPathValue}'.`] : []),
+      ...(movesFolder ? [`Rename folder ${library.path} to ${newPath}.`] : []),
+      ...dependents.map((section) => `Replace '${library.name}' with '${newName}' in the dependencies of [${section}].`),
+    ];
+
+    const choice = await vscode.window.showInformationMessage(
+      `Rename library '${library.name}' to '${newName}'?`,
+      { modal: true, detail: changes.join('\n') },
+      'Rename'
+    );
+    if (choice !== 'Rename') {
+      return;
+    }
+
+    const renamed = await this.applyIniEdits(
+      (document) => [
+        ...document.renameSection(`library.${library.name}`, `library.${newName}`),
+        ...(renamesFolder ? document.setValue(`library.${library.name}`, 'path', newPathValue) : []),
+        ...dependents.flatMap((section) => document.replaceDependency(section, library.name, newName)),
+      ],
+      (workspaceEdit) => {
+        if (movesFolder) {
+          workspaceEdit.renameFile(vscode.Uri.file(library.path), vscode.Uri.file(newPath));
         }
       }
+    );
+    if (renamed) {
+      vscode.window.showInformationMessage(`Library '${library.name}' renamed to '${newName}'.`);
+    }
+  }
+
+  /**
+   * Switches a library between static and dynamic linking.
+   * @param item The [library.<name>] node.
+   */
+  async changeLibraryType(item: IniTreeItem) {
+    const library = this.getLibraries().find((lib) => `library.${lib.name}` === item.section);
+    if (!library) {
+      vscode.window.showErrorMessage(`Section [${item.section}] is not a library.`);
+      return;
+    }
 
-      // Refresh the tree view
-      this.refresh();
-      vscode.window.showInformationMessage(`Library '${libraryName}' added successfully.`);
-    } catch (error) {
-      // Handle errors if necessary
-      vscode.window.showErrorMessage(`Failed to add library: ${error}`);
+    const picked = await vscode.window.showQuickPick(
+      LIBRARY_TYPES.map((type) => ({ label: type, description: type === library.type ? 'current' : undefined })),
+      { placeHolder: `Select the type of library '${library.name}'` }
+    );
+    if (!picked || picked.label === library.type) {
+      return;
+    }
+
+    if (await this.applyIniEdits((document) => document.setValue(`library.${library.name}`, 'type', picked.label))) {
+      vscode.window.showInformationMessage(`Library '${library.name}' is now ${picked.label}.`);
     }
   }
 
   /**
-   * Runs the setup.py script to initialize a new library.
+   * Returns the sections whose dependencies include a library.
+   * @param libraryName The name of the library.
+   */
+  private getDependents(libraryName: string): string[] {
+    return [...this.getDependencyGraph()]
+      .filter(([node, dependencies]) => node !== libraryName && dependencies.includes(libraryName))
+      .map(([node]) => nodeToSection(node));
+  }
+
+  /**
+   * Runs the setup.py script to initialize a new library. Throws if the script cannot be
+   * run, is cancelled or fails.
    * @param libraryName The name of the library to create.
    * @param libType The type of the library (static or dynamic).
    */
   async runSetupScript(libraryName: string, libType: string): Promise<void> {
-    return new Promise<void>((resolve, reject) => {
-      // Construct the command to execute setup.py with arguments (located in scripts/)
-      const setupScriptPath = path.join(this.workspaceRoot, 'miracle', 'scripts', 'setup.py');
-      const isWindows = process.platform === 'win32';
-      const pythonCommand = isWindows ? 'python' : 'python3';
-      const cmdArgs = `"${setupScriptPath}" library "${libraryName}" "${libType}"`;
-      const finalCommand = `${pythonCommand} ${cmdArgs}`;
-
-      // Execute the command using child_process.exec
-      exec(finalCommand, { cwd: path.join(this.workspaceRoot, 'miracle') }, (error, stdout, stderr) => {
-        if (error) {
-          vscode.window.showErrorMessage(`Error running setup script: ${error.message}\n${stderr}`);
-          reject(error);
-          return;
-        }
-        if (stderr) {
-          console.error(`Setup script stderr: ${stderr}`);
-        }
-        if (stdout) {
-          console.log(`Setup script stdout: ${stdout}`);
-        }
-        vscode.window.showInformationMessage(`Setup script executed successfully.`);
-        resolve();
-      });
-    });
+    const frameworkRoot = getFrameworkPath(this.workspaceRoot);
+    const setupScriptPath = resolveScript(frameworkRoot, 'setup.py');
+    const pythonCommand = setupScriptPath && (await resolvePythonInterpreter(vscode.Uri.file(this.workspaceRoot), this.log));
+    if (!setupScriptPath || !pythonCommand) {
+      throw new Error('The setup script cannot be run.');
+    }
+
+    // Run setup.py with the library name and type as separate arguments
+    const result = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `Setting up library '${libraryName}'...`, cancellable: true },
+      (_progress, token) =>
+        runProcess(pythonCommand, [setupScriptPath, 'library', libraryName, libType], {
+          cwd: frameworkRoot,
+          token,
+          log: this.log,
+        })
+    );
+
+    if (result.cancelled) {
+      throw new Error('The setup script was cancelled.');
+    }
+    if (result.exitCode !== 0) {
+      throw new Error(`The setup script exited with code ${result.exitCode}.`);
+    }
   }
 
   /**
-   * Writes the current INI data back to the config.ini file.
+   * Applies targeted edits to config.ini through a WorkspaceEdit, so that comments, ordering
+   * and formatting are kept and the change can be undone. The edits are computed against the
+   * open editor buffer if there is one; a buffer with unsaved changes is left unsaved.
+   * @param computeEdits Computes the edits from the current contents of config.ini.
+   * @param fileOperations Adds file operations, such as renaming a library folder, to the same edit.
+   * @returns Whether the edits were applied.
    */
-  private updateIniFile() {
-    const iniContent = ini.stringify(this.iniData);
-    fs.writeFileSync(this.iniPath, iniContent);
+  private async applyIniEdits(
+    computeEdits: (document: IniDocument) => IniEdit[],
+    fileOperations?: (workspaceEdit: vscode.WorkspaceEdit) => void
+  ): Promise<boolean> {
+    const uri = vscode.Uri.file(this.iniPath);
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    let textDocument: vscode.TextDocument | undefined;
+
+    if (fs.existsSync(this.iniPath)) {
+      textDocument = await vscode.workspace.openTextDocument(uri);
+    } else {
+      workspaceEdit.createFile(uri, { ignoreIfExists: true });
+    }
+
+    const wasDirty = textDocument?.isDirty ?? false;
+    const edits = computeEdits(IniDocument.parse(textDocument?.getText() ?? ''));
+    for (const edit of edits) {
+      workspaceEdit.replace(uri, new vscode.Range(edit.line, edit.start, edit.endLine ?? edit.line, edit.end), edit.text);
+    }
+    fileOperations?.(workspaceEdit);
+
+    if (!(await vscode.workspace.applyEdit(workspaceEdit))) {
+      vscode.window.showErrorMessage(`Failed to update ${this.iniPath}.`);
+      return false;
+    }
+
+    textDocument ??= await vscode.workspace.openTextDocument(uri);
+    if (!wasDirty) {
+      await textDocument.save();
+    }
+
+    this.refresh();
+    return true;
   }
 }
 
@@ -336,12 +873,14 @@ export class IniTreeItem extends vscode.TreeItem {
    * @param data The underlying data from the INI file.
    * @param collapsibleState The collapsible state of the item.
    * @param section The full section path in the INI file.
+   * @param projectRoot The root folder of the project the config.ini belongs to.
    */
   constructor(
     public readonly label: string,
     public readonly data: any,
     public readonly collapsibleState: vscode.TreeItemCollapsibleState,
-    public readonly section: string
+    public readonly section: string,
+    public readonly projectRoot: string
   ) {
     super(label, collapsibleState);
 
@@ -355,12 +894,24 @@ export class IniTreeItem extends vscode.TreeItem {
         arguments: [this],
       };
       this.contextValue = 'iniItem';
+
+      // Describe known keys and mark keys the Miracle Framework does not know about
+      const sectionSchema = getSectionSchema(section);
+      const keySchema = getKeySchema(section, label);
+      if (keySchema) {
+        this.tooltip = keySchema.description;
+      } else if (sectionSchema) {
+        this.tooltip = `'${label}' is not a known key of [${sectionSchema.name}].`;
+        this.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'));
+      }
     } else {
       // Parent node: determine the contextValue based on the section path
-      if (
+      if (section.startsWith('library.')) {
+        // A single library, which can also be renamed, retyped and removed
+        this.contextValue = 'library';
+      } else if (
         section === 'application' ||
-        section === 'library' ||
-        section.startsWith('library.')
+        section === 'library'
       ) {
         // This is the 'application' node or a 'library' node
         this.contextValue = 'applicationOrLibrary';